@@ -1,6 +1,7 @@
 import {IAgent, ITool} from "./type";
 import { createHash } from 'crypto';
 import { LRUCache } from 'lru-cache';
+import { PARENT_REQUEST_HEADER } from "../utils/requestQueue";
 
 interface ImageCacheEntry {
   source: any;
@@ -150,6 +151,8 @@ export class ImageAgent implements IAgent {
           headers: {
             'x-api-key': context.config.APIKEY,
             'content-type': 'application/json',
+            ...(context.req.monitoringId ? { [PARENT_REQUEST_HEADER]: context.req.monitoringId } : {}),
+            ...(context.traceparent ? { traceparent: context.traceparent } : {}),
           },
           body: JSON.stringify({
             model: context.config.Router.image,
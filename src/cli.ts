@@ -34,6 +34,10 @@ Commands:
   code          Execute claude command
   ui            Open the web UI in browser
   sessions      List all active sessions
+  route explain <file.json>
+                Show how a Messages API request body would be routed
+  secrets set|get|list|rm [name] [value]
+                Manage the encrypted secrets referenced as secret:NAME
   -v, version   Show version information
   -h, help      Show help information
 
@@ -43,6 +47,8 @@ Example:
   CCR_MODEL_PREFERENCE=openrouter/gpt-4 ccr code "Use GPT-4"
   CCR_MODEL_PREFERENCE=anthropic,claude-3-opus ccr code "Use Claude Opus"
   ccr sessions
+  ccr route explain request.json
+  ccr secrets set DEEPSEEK_KEY
   ccr ui
 `;
 
@@ -69,6 +75,126 @@ async function waitForService(
   return false;
 }
 
+async function explainRouteCommand(file: string, sessionConfig?: SessionConfig) {
+  let body: any;
+  try {
+    body = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (error: any) {
+    console.error(`Failed to read request body from ${file}:`, error.message);
+    process.exit(1);
+  }
+
+  const { readConfigFile } = require("./utils");
+  const config = await readConfigFile();
+  const endpoint = sessionConfig
+    ? `http://127.0.0.1:${sessionConfig.port}`
+    : (await getServiceInfo()).endpoint;
+  const response = await fetch(`${endpoint}/api/route/explain`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-api-key": config.APIKEY || "",
+    },
+    body: JSON.stringify(body),
+  });
+  const text = await response.text();
+  let result: any;
+  try {
+    result = JSON.parse(text);
+  } catch {
+    result = { error: text };
+  }
+  if (!response.ok) {
+    console.error("Failed to explain route:", result.error || response.statusText);
+    process.exit(1);
+  }
+
+  console.log(`\nScenario:    ${result.scenario}`);
+  console.log(`Model:       ${result.model}`);
+  if (result.arm) {
+    console.log(`Split arm:   ${result.arm}`);
+  }
+  if (result.candidates.length > 1) {
+    console.log(`Candidates:  ${result.candidates.join(" -> ")}`);
+  }
+  if (result.skipped.length) {
+    console.log(`Skipped:     ${result.skipped.join(", ")} (circuit open)`);
+  }
+  console.log(`Token count: ${result.tokenCount}`);
+  if (result.sessionId) {
+    console.log(`Session ID:  ${result.sessionId}`);
+  }
+  console.log("\nChecks:");
+  for (const check of result.checks) {
+    console.log(`  ${check.passed ? "✅" : "❌"} ${check.check}: ${check.reason}`);
+  }
+  console.log();
+}
+
+const SECRETS_USAGE = "Usage: ccr secrets set <name> [value] | get <name> | list | rm <name>";
+
+// Reads the value from stdin when it is piped, so it stays out of the shell history
+async function readSecretValue(name: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    let data = "";
+    for await (const chunk of process.stdin) {
+      data += chunk;
+    }
+    return data.trim();
+  }
+  const readline = require("readline");
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise((resolve) => {
+    rl.question(`Value for ${name}: `, (answer: string) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+async function secretsCommand(args: string[]) {
+  const { secretStore } = require("./utils/secrets");
+  const [action, name, value] = args;
+  if (!["set", "get", "list", "rm"].includes(action) || (action !== "list" && !name)) {
+    console.log(SECRETS_USAGE);
+    process.exit(1);
+  }
+  try {
+    if (action === "set") {
+      const secret = value ?? (await readSecretValue(name));
+      if (!secret) {
+        console.error("The secret value is empty.");
+        process.exit(1);
+      }
+      secretStore.set(name, secret);
+      console.log(`Saved secret ${name}. Reference it in config.json as "secret:${name}"; running services pick it up on restart.`);
+    } else if (action === "get") {
+      const secret = secretStore.get(name);
+      if (secret === undefined) {
+        console.error(`Secret ${name} not found.`);
+        process.exit(1);
+      }
+      console.log(secret);
+    } else if (action === "list") {
+      const secrets = secretStore.list();
+      if (secrets.length === 0) {
+        console.log("No secrets.");
+      }
+      for (const secret of secrets) {
+        console.log(`${secret.name}\t${new Date(secret.updatedAt).toLocaleString()}`);
+      }
+    } else if (secretStore.remove(name)) {
+      console.log(`Removed secret ${name}.`);
+    } else {
+      console.error(`Secret ${name} not found.`);
+      process.exit(1);
+    }
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
 async function main() {
   // Check for model preference in environment
   const modelPreference = process.env.CCR_MODEL_PREFERENCE || '';
@@ -76,7 +202,7 @@ async function main() {
   let isRunning = false;
 
   // For session-aware commands, get the session config
-  if (['start', 'stop', 'status', 'code'].includes(command)) {
+  if (['start', 'stop', 'status', 'code', 'route'].includes(command)) {
     sessionConfig = getSessionConfig(modelPreference);
     isRunning = await isSessionRunning(sessionConfig);
   } else if (command === 'ui') {
@@ -511,6 +637,20 @@ async function main() {
         console.log();
       }
       break;
+    case "route":
+      if (process.argv[3] !== "explain" || !process.argv[4]) {
+        console.log("Usage: ccr route explain <file.json>");
+        process.exit(1);
+      }
+      if (!isRunning) {
+        console.log("Service not running. Please run `ccr start` first.");
+        process.exit(1);
+      }
+      await explainRouteCommand(process.argv[4], sessionConfig);
+      break;
+    case "secrets":
+      await secretsCommand(process.argv.slice(3));
+      break;
     case "-h":
     case "help":
       console.log(HELP_TEXT);
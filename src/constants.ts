@@ -5,6 +5,8 @@ export const HOME_DIR = path.join(os.homedir(), ".claude-code-router");
 
 export const CONFIG_FILE = path.join(HOME_DIR, "config.json");
 
+export const SECRETS_FILE = path.join(HOME_DIR, "secrets.enc");
+
 export const PLUGINS_DIR = path.join(HOME_DIR, "plugins");
 
 export const PID_FILE = path.join(HOME_DIR, '.claude-code-router.pid');
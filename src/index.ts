@@ -22,7 +22,30 @@ import JSON5 from "json5";
 import { IAgent } from "./agents/type";
 import agentsManager from "./agents";
 import { EventEmitter } from "node:events";
+import type { FastifyReply } from "fastify";
+import type { RouterRequest } from "./types/fastify";
 import { monitoringService } from "./utils/monitoring";
+import { handleChatCompletion } from "./utils/chatCompletions";
+import { responseCache } from "./utils/responseCache";
+import { cassetteService } from "./utils/cassette";
+import { captureService, ResponseAssembler } from "./utils/capture";
+import { mockProviderService } from "./utils/mockProvider";
+import { retryService } from "./utils/retry";
+import { apiKeyService } from "./utils/apiKeys";
+import { budgetService } from "./utils/budget";
+import { requestStore } from "./utils/requestStore";
+import { tracingService } from "./utils/tracing";
+import { shadowService } from "./utils/shadow";
+import { getHedgeModels, HEDGE_HEADER, isCancelledLeg, raceModels, watchLeg } from "./utils/hedge";
+import { PARENT_REQUEST_HEADER, requestQueue } from "./utils/requestQueue";
+import {
+  FALLBACK_HEADER,
+  REQUEST_ID_HEADER,
+  hasNextCandidate,
+  isRetryableError,
+  sendToNextCandidate,
+} from "./utils/fallback";
+import { providerHealthService } from "./utils/providerHealth";
 
 const event = new EventEmitter()
 
@@ -53,6 +76,58 @@ interface RunOptions {
   sessionConfig?: SessionConfig;
 }
 
+// Answered locally by the server, never routed to a provider
+const COUNT_TOKENS_PATH = "/v1/messages/count_tokens";
+
+/**
+ * The upstream call itself runs in the llms route handler; its span covers
+ * the time from the end of routing until the response or error arrives.
+ */
+const startUpstreamSpan = (req: RouterRequest) => {
+  if (!req.traceSpan) return;
+  const [provider, model] = String(req.body?.model || "").split(",");
+  req.upstreamSpan = tracingService.startSpan("upstream", {
+    parent: req.traceSpan,
+    kind: "client",
+    attributes: { provider, model, stream: req.body?.stream === true }
+  });
+};
+
+/**
+ * Wait for a `RateLimits` slot for the upstream call of the request; the slot
+ * is released when the response is closed. Requests this service sends on
+ * behalf of another share its slot. Replies with a 429 and returns false
+ * when the wait times out.
+ */
+const waitForUpstreamSlot = async (
+  req: RouterRequest,
+  reply: FastifyReply,
+  options: { scenario?: string; requestId?: string }
+): Promise<boolean> => {
+  const controller = new AbortController();
+  const onClose = () => controller.abort();
+  reply.raw.once("close", onClose);
+  try {
+    const ticket = await requestQueue.acquire(req.body.model, {
+      ...options,
+      parentId: req.headers[PARENT_REQUEST_HEADER],
+      signal: controller.signal
+    });
+    req.releaseUpstreamSlot = ticket.release;
+    reply.raw.once("close", ticket.release);
+    return true;
+  } catch (error: any) {
+    req.log.warn(`Rejected queued request for ${req.body.model}: ${error.message}`);
+    reply.code(429).header("retry-after", "1").send({
+      type: "error",
+      error: { type: "rate_limit_error", message: error.message }
+    });
+    return false;
+  } finally {
+    reply.raw.off("close", onClose);
+  }
+};
+
 async function run(options: RunOptions = {}) {
   // Check if service is already running
   const { sessionConfig } = options;
@@ -77,6 +152,16 @@ async function run(options: RunOptions = {}) {
   // Clean up old log files, keeping only the 10 most recent ones
   await cleanupLogFiles();
   let config = await initConfig();
+  config.Providers = apiKeyService.configure(
+    mockProviderService.configure(config.Providers || config.providers)
+  );
+  providerHealthService.configure(config.CircuitBreaker);
+  responseCache.configure(config.ResponseCache);
+  cassetteService.configure(config);
+  captureService.configure(config.Capture, config.Providers);
+  requestQueue.configure(config.RateLimits);
+  retryService.configure(config.Retry, config.Providers);
+  tracingService.configure(config.Tracing);
 
   // Apply session-specific configuration overrides
   if (sessionConfig) {
@@ -137,6 +222,9 @@ async function run(options: RunOptions = {}) {
     console.log(`  Model Preference: ${sessionConfig.modelPreference || 'default'}`);
     console.log(`  Port: ${sessionConfig.port}`);
   }
+  monitoringService.configure(config);
+  requestStore.configure(config.RequestHistory);
+  budgetService.configure(config.Budgets, sessionConfig?.sessionId);
 
 
   let HOST = config.HOST || "127.0.0.1";
@@ -181,6 +269,11 @@ async function run(options: RunOptions = {}) {
   // Use port from session config or environment variable if set
   const servicePort = sessionConfig?.port ||
     (process.env.SERVICE_PORT ? parseInt(process.env.SERVICE_PORT) : port);
+  shadowService.configure(config.Shadow, {
+    port: servicePort,
+    apiKey: config.APIKEY,
+    pricing: config.Pricing
+  });
 
   // Configure logger based on config settings
   const pad = num => (num > 9 ? "" : "0") + num;
@@ -236,22 +329,77 @@ async function run(options: RunOptions = {}) {
   process.on("unhandledRejection", (reason, promise) => {
     server.logger.error("Unhandled rejection at:", promise, "reason:", reason);
   });
+  // Model requests start a trace, or continue the caller's one
+  server.addHook("onRequest", async (req: RouterRequest) => {
+    if (
+      tracingService.isEnabled() &&
+      (req.url.startsWith("/v1/messages") || req.url.startsWith("/v1/chat/completions"))
+    ) {
+      const path = req.url.split("?")[0];
+      req.traceSpan = tracingService.startSpan(`${req.method} ${path}`, {
+        kind: "server",
+        parent: tracingService.parseTraceparent(req.headers.traceparent),
+        attributes: { "http.request.method": req.method, "url.path": path }
+      });
+    }
+  });
+  server.addHook("onResponse", async (req: RouterRequest, reply: FastifyReply) => {
+    if (req.traceSpan) {
+      req.traceSpan.setAttributes({ "http.response.status_code": reply.statusCode });
+      if (reply.statusCode >= 500) {
+        req.traceSpan.recordError(new Error(`HTTP ${reply.statusCode}`));
+      }
+      req.traceSpan.end();
+    }
+  });
   // Add async preHandler hook for authentication
-  server.addHook("preHandler", async (req, reply) => {
-    return new Promise((resolve, reject) => {
+  server.addHook("preHandler", async (req: RouterRequest, reply: FastifyReply) => {
+    return tracingService.withSpan("auth", req.traceSpan, () => new Promise<void>((resolve, reject) => {
       const done = (err?: Error) => {
         if (err) reject(err);
         else resolve();
       };
       // Call the async auth function
       apiKeyAuth(config)(req, reply, done).catch(reject);
-    });
+    }));
   });
-  server.addHook("preHandler", async (req, reply) => {
-    if (req.url.startsWith("/v1/messages")) {
+  server.addHook("preHandler", async (req: RouterRequest, reply: FastifyReply) => {
+    if (req.url.startsWith("/v1/messages") && !req.url.startsWith(COUNT_TOKENS_PATH)) {
+      // Failover hops and hedge legs are already routed and monitored by the
+      // original request
+      if (req.headers[FALLBACK_HEADER] || req.headers[HEDGE_HEADER]) {
+        const originalId = req.headers[REQUEST_ID_HEADER] || req.headers[HEDGE_HEADER];
+        if (req.headers[HEDGE_HEADER]) {
+          watchLeg(req, reply);
+        }
+        // Waits of parallel hedge legs would add up, so only hops are recorded
+        if (!(await waitForUpstreamSlot(req, reply, {
+          scenario: originalId ? monitoringService.getRequest(originalId)?.routing?.scenario : undefined,
+          requestId: req.headers[REQUEST_ID_HEADER]
+        }))) {
+          return reply;
+        }
+        startUpstreamSpan(req);
+        return;
+      }
+
       // Start monitoring this request
       const requestId = monitoringService.startRequest(req);
-      (req as any).monitoringId = requestId;
+      req.monitoringId = requestId;
+
+      const budget = budgetService.check(monitoringService.getApiKeyId(req.headers));
+      if (budget.rejection) {
+        monitoringService.endRequest(requestId, null, new Error(budget.rejection));
+        // Not retryable, so Claude Code shows the reason right away
+        reply.code(402).send({
+          type: "error",
+          error: { type: "billing_error", message: budget.rejection }
+        });
+        return reply;
+      }
+      if (budget.downgrade.length) {
+        req.budgetDowngrade = budget.downgrade;
+      }
 
       const useAgents = []
 
@@ -261,7 +409,9 @@ async function run(options: RunOptions = {}) {
           useAgents.push(agent.name)
 
           // change request body
-          agent.reqHandler(req, config);
+          await tracingService.withSpan(`agent ${agent.name} reqHandler`, req.traceSpan, () => {
+            agent.reqHandler(req, config);
+          });
 
           // append agent tools
           if (agent.tools.size) {
@@ -282,32 +432,263 @@ async function run(options: RunOptions = {}) {
       if (useAgents.length) {
         req.agents = useAgents;
       }
-      await router(req, reply, {
-        config,
-        event
+      await tracingService.withSpan("route", req.traceSpan, async (span) => {
+        await router(req, reply, {
+          config,
+          event
+        });
+        span?.setAttributes({
+          scenario: req.routeScenario,
+          model: req.body?.model,
+          candidates: req.routeCandidates?.join(" -> ")
+        });
       });
 
       // Update monitoring with routing info
-      if ((req as any).monitoringId && req.body?.model) {
+      if (req.monitoringId && req.body?.model) {
         const modelParts = req.body.model.split(',');
-        monitoringService.updateRequest((req as any).monitoringId, {
+        monitoringService.updateRequest(req.monitoringId, {
           provider: modelParts.length === 2 ? modelParts[0] : undefined,
-          model: modelParts.length === 2 ? modelParts[1] : req.body.model
+          model: modelParts.length === 2 ? modelParts[1] : req.body.model,
+          routing: {
+            // The router always records a decision
+            scenario: req.routeScenario!,
+            candidates: req.routeCandidates!,
+            arm: req.routeArm
+          }
         });
       }
+
+      if (responseCache.isCacheable(req)) {
+        const key = responseCache.getKey(req.body);
+        const cached = responseCache.get(key);
+        if (req.monitoringId) {
+          monitoringService.recordCacheLookup(req.monitoringId, !!cached);
+        }
+        if (cached) {
+          reply.header("x-ccr-cache", "hit");
+          if (cached.stream) {
+            reply.header("content-type", "text/event-stream");
+            reply.header("cache-control", "no-cache");
+          } else {
+            reply.header("content-type", "application/json");
+            if (req.monitoringId) {
+              monitoringService.endRequest(req.monitoringId, { body: JSON.parse(cached.body || "{}") });
+            }
+          }
+          reply.send(responseCache.replay(cached));
+          return reply;
+        }
+        req.cacheKey = key;
+      }
+      if (req.monitoringId && shadowService.shouldMirror(req)) {
+        // Not awaited: the client only waits for the primary model
+        shadowService.mirror(req.monitoringId, req.body);
+      }
+      const hedgeModels = getHedgeModels(req, config);
+      if (hedgeModels.length) {
+        const monitoringId = req.monitoringId;
+        const { legs, winner } = await tracingService.withSpan("hedge", req.traceSpan, (span) => raceModels(req.body, hedgeModels, {
+          port: servicePort,
+          apiKey: config.APIKEY,
+          traceparent: tracingService.getTraceparent(span || req.traceSpan),
+          requestId: monitoringId
+        }));
+        monitoringService.recordHedge(monitoringId, legs);
+        if (winner) {
+          const [provider, model] = winner.model.split(",");
+          monitoringService.updateRequest(monitoringId, { provider, model });
+          req.body.model = winner.model;
+          reply.code(winner.response.status);
+          reply.header("content-type", winner.response.headers.get("content-type") || "text/event-stream");
+          reply.header("x-ccr-hedge-winner", winner.model);
+          reply.send(winner.stream);
+          return reply;
+        }
+        // Both legs failed before answering; the routed model gets its turn
+        req.log.warn(`Hedged request failed on ${hedgeModels.join(" and ")}, using the routed model`);
+      }
+      if (!(await waitForUpstreamSlot(req, reply, {
+        scenario: req.routeScenario,
+        requestId: req.monitoringId
+      }))) {
+        monitoringService.endRequest(req.monitoringId, null, new Error("Rejected by the rate limit queue"));
+        return reply;
+      }
+      startUpstreamSpan(req);
+    }
+  });
+  // Upstream calls made while handling the request are captured for it;
+  // failover hops capture for the request they continue
+  server.addHook("preHandler", (req: RouterRequest, reply: FastifyReply, done: () => void) => {
+    const requestId = req.monitoringId || (req.headers[FALLBACK_HEADER] && req.headers[REQUEST_ID_HEADER]);
+    if (!captureService.isEnabled() || !requestId) {
+      return done();
+    }
+    if (req.monitoringId) {
+      captureService.recordRouted(req.monitoringId, req.body);
+    }
+    captureService.run(requestId, done);
+  });
+  // The pooled API key an upstream call uses is recorded on its request, and
+  // keys it benches are logged with it
+  server.addHook("preHandler", (req: RouterRequest, reply: FastifyReply, done: () => void) => {
+    const requestId = req.monitoringId || req.headers[REQUEST_ID_HEADER] || req.headers[HEDGE_HEADER];
+    if (!apiKeyService.isEnabled()) {
+      return done();
+    }
+    apiKeyService.run(req, requestId, done);
+  });
+  // Upstream calls answered with a transient status are retried before they
+  // fail over; hops and hedge legs log their attempts on the original request
+  server.addHook("preHandler", (req: RouterRequest, reply: FastifyReply, done: () => void) => {
+    if (!retryService.isEnabled() || !req.url.startsWith("/v1/messages") || req.url.startsWith(COUNT_TOKENS_PATH)) {
+      return done();
+    }
+    const requestId = req.monitoringId || req.headers[REQUEST_ID_HEADER] || req.headers[HEDGE_HEADER];
+    retryService.run(req, requestId, done);
+  });
+  // OpenAI-compatible clients are served through /v1/messages, so they share
+  // routing, agents, monitoring and session usage with Anthropic clients
+  server.addHook("preHandler", async (req: RouterRequest, reply: FastifyReply) => {
+    if (req.url.startsWith("/v1/chat/completions")) {
+      await handleChatCompletion(req, reply, {
+        port: servicePort,
+        apiKey: config.APIKEY,
+        traceparent: tracingService.getTraceparent(req.traceSpan)
+      });
+      return reply;
     }
   });
-  server.addHook("onError", async (request, reply, error) => {
-    // Log error to monitoring
-    if ((request as any).monitoringId) {
-      monitoringService.endRequest((request as any).monitoringId, null, error);
+  server.addHook("onError", async (request: RouterRequest, reply: FastifyReply, error: any) => {
+    // The upstream call is over, so a failover hop may take the slot
+    request.releaseUpstreamSlot?.();
+    if (request.upstreamSpan) {
+      request.upstreamSpan.setAttributes({ "http.response.status_code": error.statusCode });
+      request.upstreamSpan.recordError(error).end();
+    }
+    // The losing leg of a hedged request was aborted, it did not fail
+    if (isCancelledLeg(request)) {
+      return;
+    }
+    // Only upstream failures count towards the provider circuit
+    if (request.provider && isRetryableError(error)) {
+      providerHealthService.recordFailure(request.provider, error);
+    }
+    // Keep the request open if the next fallback candidate will be tried
+    if (isRetryableError(error) && hasNextCandidate(request)) {
+      request.failoverPending = true;
+      if (request.monitoringId) {
+        monitoringService.recordFallback(request.monitoringId, {
+          model: request.routeCandidates![request.routeAttempt || 0],
+          status: error.statusCode,
+          error: error.message,
+          timestamp: new Date()
+        });
+      }
+    } else if (request.monitoringId) {
+      // Log error to monitoring
+      monitoringService.endRequest(request.monitoringId, null, error);
     }
     event.emit('onError', request, reply, error);
   })
-  server.addHook("onSend", (req, reply, payload, done) => {
-    if (req.sessionId && req.url.startsWith("/v1/messages")) {
+  server.addHook("onSend", async (req: RouterRequest, reply: FastifyReply, payload: any) => {
+    if (req.upstreamSpan && !req.upstreamSpan.isEnded()) {
+      req.upstreamSpan.setAttributes({ "http.response.status_code": reply.statusCode }).end();
+    }
+    return payload;
+  })
+  server.addHook("onSend", async (req: RouterRequest, reply: FastifyReply, payload: any) => {
+    if (req.provider && req.url.startsWith("/v1/messages") && !req.url.startsWith(COUNT_TOKENS_PATH) && !req.failoverPending && !isCancelledLeg(req) && reply.statusCode < 400) {
+      providerHealthService.recordSuccess(req.provider);
+    }
+    return payload;
+  })
+  // Retry a failed upstream call on the next candidate of the Router entry.
+  // Upstream errors are raised before any bytes are streamed, so the client
+  // only ever sees the response of the candidate that answered.
+  server.addHook("onSend", async (req: RouterRequest, reply: FastifyReply, payload: any) => {
+    if (!req.failoverPending) {
+      return payload;
+    }
+    req.failoverPending = false;
+    const monitoringId = req.monitoringId;
+    let lastModel: string | undefined;
+    const result = await sendToNextCandidate(req, {
+      port: servicePort,
+      apiKey: config.APIKEY,
+      traceparent: tracingService.getTraceparent(req.traceSpan),
+      requestId: monitoringId,
+      onHop: (model, status, error) => {
+        lastModel = model;
+        if (monitoringId) {
+          monitoringService.recordFallback(monitoringId, {
+            model,
+            status,
+            error: error?.slice(0, 500),
+            timestamp: new Date()
+          });
+        }
+      }
+    });
+    // The request is logged under the last candidate tried, as it is when a
+    // candidate answers
+    const recordModel = (model: string) => {
+      if (monitoringId) {
+        const [provider, modelName] = model.split(",");
+        monitoringService.updateRequest(monitoringId, { provider, model: modelName });
+      }
+    };
+    if (!result) {
+      if (lastModel) {
+        recordModel(lastModel);
+      }
+      if (monitoringId) {
+        monitoringService.endRequest(monitoringId, null, new Error(`All fallback candidates failed for ${req.routeScenario}`));
+      }
+      return payload;
+    }
+
+    const { response, model } = result;
+    req.body.model = model;
+    reply.code(response.status);
+    reply.header("content-type", response.headers.get("content-type") || "application/json");
+    recordModel(model);
+    if (!response.ok) {
+      if (monitoringId) {
+        monitoringService.endRequest(monitoringId, null, new Error(`Error from fallback ${model}: ${response.status}`));
+      }
+      return await response.text();
+    }
+    return req.body.stream ? response.body : await response.text();
+  })
+  // Store cacheable responses; streams are stored once fully received
+  server.addHook("onSend", async (req: RouterRequest, reply: FastifyReply, payload: any) => {
+    const key = req.cacheKey;
+    if (!key || reply.statusCode !== 200) {
+      return payload;
+    }
+    req.cacheKey = undefined;
+    if (payload instanceof ReadableStream) {
+      const [clientStream, cacheStream] = payload.tee();
+      responseCache.storeStream(key, cacheStream);
+      return clientStream;
+    }
+    if (typeof payload === "string") {
+      responseCache.set(key, { stream: false, body: payload });
+    }
+    return payload;
+  })
+  server.addHook("onSend", (req: RouterRequest, reply: FastifyReply, payload: any, done: (err: any, value?: any) => void) => {
+    // Nobody reads the answer of an aborted hedge leg
+    if (isCancelledLeg(req)) {
+      return done(null, "");
+    }
+    // Requests without a session, such as shadow copies, are still monitored
+    if ((req.sessionId || req.monitoringId) && req.url.startsWith("/v1/messages")) {
       if (payload instanceof ReadableStream) {
-        if (req.agents) {
+        const agents = req.agents;
+        if (agents) {
           const abortController = new AbortController();
           const eventStream = payload.pipeThrough(new SSEParserTransform())
           let currentAgent: undefined | IAgent;
@@ -322,7 +703,7 @@ async function run(options: RunOptions = {}) {
             try {
               // 检测工具调用开始
               if (data.event === 'content_block_start' && data?.data?.content_block?.name) {
-                const agent = req.agents.find((name: string) => agentsManager.getAgent(name)?.tools.get(data.data.content_block.name))
+                const agent = agents.find((name: string) => agentsManager.getAgent(name)?.tools.get(data.data.content_block.name))
                 if (agent) {
                   currentAgent = agentsManager.getAgent(agent)
                   currentToolIndex = data.data.index
@@ -348,9 +729,12 @@ async function run(options: RunOptions = {}) {
                     name: currentToolName,
                     input: args
                   })
-                  const toolResult = await currentAgent?.tools.get(currentToolName)?.handler(args, {
-                    req,
-                    config
+                  const toolResult = await tracingService.withSpan(`tool ${currentToolName}`, req.traceSpan, (span) => {
+                    return currentAgent?.tools.get(currentToolName)?.handler(args, {
+                      req,
+                      config,
+                      traceparent: tracingService.getTraceparent(span)
+                    });
                   });
                   toolMessages.push({
                     "tool_use_id": currentToolId,
@@ -377,11 +761,14 @@ async function run(options: RunOptions = {}) {
                   role: 'user',
                   content: toolMessages
                 })
+                const traceparent = tracingService.getTraceparent(req.traceSpan);
                 const response = await fetch(`http://127.0.0.1:${config.PORT}/v1/messages`, {
                   method: "POST",
                   headers: {
                     'x-api-key': config.APIKEY,
                     'content-type': 'application/json',
+                    ...(req.monitoringId ? { [PARENT_REQUEST_HEADER]: req.monitoringId } : {}),
+                    ...(traceparent ? { traceparent } : {}),
                   },
                   body: JSON.stringify(req.body),
                 })
@@ -434,30 +821,41 @@ async function run(options: RunOptions = {}) {
         }
 
         const [originalStream, clonedStream] = payload.tee();
+        const streamSpan = req.traceSpan
+          ? tracingService.startSpan("stream", { parent: req.traceSpan })
+          : undefined;
+        const assembler = captureService.isEnabled() && req.monitoringId
+          ? new ResponseAssembler()
+          : undefined;
         const read = async (stream: ReadableStream) => {
-          const reader = stream.getReader();
+          // Chunks may hold several events or end mid-event, so the stream is
+          // parsed into whole events before looking for the usage
+          const reader = stream.pipeThrough(new SSEParserTransform()).getReader();
           try {
             while (true) {
               const { done, value } = await reader.read();
               if (done) break;
-              // Process the value if needed
-              const dataStr = new TextDecoder().decode(value);
-              if (!dataStr.startsWith("event: message_delta")) {
+              if (value.event === "content_block_delta" && req.monitoringId) {
+                monitoringService.recordFirstToken(req.monitoringId);
+              }
+              assembler?.push(value.data);
+              if (value.event !== "message_delta" || !value.data?.usage) {
                 continue;
               }
-              const str = dataStr.slice(27);
-              try {
-                const message = JSON.parse(str);
+              const message = value.data;
+              if (req.sessionId) {
                 sessionUsageCache.put(req.sessionId, message.usage);
+              }
 
-                // Update monitoring with token usage
-                if ((req as any).monitoringId && message.usage) {
-                  monitoringService.updateRequest((req as any).monitoringId, {
-                    inputTokens: message.usage.input_tokens,
-                    outputTokens: message.usage.output_tokens
-                  });
-                }
-              } catch {}
+              // Update monitoring with token usage
+              if (req.monitoringId) {
+                monitoringService.updateRequest(req.monitoringId, {
+                  inputTokens: message.usage.input_tokens,
+                  outputTokens: message.usage.output_tokens,
+                  cacheReadTokens: message.usage.cache_read_input_tokens,
+                  cacheWriteTokens: message.usage.cache_creation_input_tokens
+                });
+              }
             }
           } catch (readError: any) {
             if (readError.name === 'AbortError' || readError.code === 'ERR_STREAM_PREMATURE_CLOSE') {
@@ -470,22 +868,39 @@ async function run(options: RunOptions = {}) {
           }
         }
         read(clonedStream).finally(() => {
+          streamSpan?.end();
           // Complete monitoring when stream ends
-          if ((req as any).monitoringId) {
-            monitoringService.endRequest((req as any).monitoringId, { body: req.body });
+          if (req.monitoringId) {
+            if (assembler) {
+              captureService.recordResponse(req.monitoringId, assembler.result());
+            }
+            monitoringService.endRequest(req.monitoringId, { body: req.body });
           }
         });
         return done(null, originalStream)
       }
       // Non-streaming response, complete monitoring
-      if ((req as any).monitoringId && payload.usage) {
-        monitoringService.updateRequest((req as any).monitoringId, {
-          inputTokens: payload.usage?.input_tokens,
-          outputTokens: payload.usage?.output_tokens
+      let message = payload;
+      if (typeof payload === 'string') {
+        try {
+          message = JSON.parse(payload);
+        } catch {}
+      }
+      if (req.monitoringId && message?.usage) {
+        monitoringService.updateRequest(req.monitoringId, {
+          inputTokens: message.usage.input_tokens,
+          outputTokens: message.usage.output_tokens,
+          cacheReadTokens: message.usage.cache_read_input_tokens,
+          cacheWriteTokens: message.usage.cache_creation_input_tokens
         });
-        monitoringService.endRequest((req as any).monitoringId, { body: payload });
+        if (captureService.isEnabled()) {
+          captureService.recordResponse(req.monitoringId, ResponseAssembler.fromMessage(message));
+        }
+        monitoringService.endRequest(req.monitoringId, { body: message });
+      }
+      if (req.sessionId) {
+        sessionUsageCache.put(req.sessionId, message?.usage);
       }
-      sessionUsageCache.put(req.sessionId, payload.usage);
       if (typeof payload ==='object') {
         if (payload.error) {
           return done(payload.error, null)
@@ -499,7 +914,7 @@ async function run(options: RunOptions = {}) {
     }
     done(null, payload)
   });
-  server.addHook("onSend", async (req, reply, payload) => {
+  server.addHook("onSend", async (req: RouterRequest, reply: FastifyReply, payload: any) => {
     event.emit('onSend', req, reply, payload);
     return payload;
   })
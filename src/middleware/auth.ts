@@ -1,5 +1,17 @@
 import { FastifyRequest, FastifyReply } from "fastify";
 
+const getToken = (req: FastifyRequest): string => {
+  const authHeaderValue =
+    req.headers.authorization || req.headers["x-api-key"];
+  const authKey: string = Array.isArray(authHeaderValue)
+    ? authHeaderValue[0]
+    : authHeaderValue || "";
+  if (authKey.startsWith("Bearer")) {
+    return authKey.split(" ")[1];
+  }
+  return authKey;
+};
+
 export const apiKeyAuth =
   (config: any) =>
   async (req: FastifyRequest, reply: FastifyReply, done: () => void) => {
@@ -8,6 +20,17 @@ export const apiKeyAuth =
       return done();
     }
 
+    // Prometheus scrapers authenticate with their own token, which grants
+    // access to /metrics only
+    if (config.METRICS_TOKEN && req.url.split("?")[0] === "/metrics") {
+      const token = getToken(req);
+      if (token !== config.METRICS_TOKEN && token !== config.APIKEY) {
+        reply.status(401).send("Invalid metrics token");
+        return;
+      }
+      return done();
+    }
+
     const apiKey = config.APIKEY;
     if (!apiKey) {
       // If no API key is set, enable CORS for local
@@ -35,21 +58,11 @@ export const apiKeyAuth =
       return done();
     }
 
-    const authHeaderValue =
-      req.headers.authorization || req.headers["x-api-key"];
-    const authKey: string = Array.isArray(authHeaderValue)
-      ? authHeaderValue[0]
-      : authHeaderValue || "";
-    if (!authKey) {
+    const token = getToken(req);
+    if (!token) {
       reply.status(401).send("APIKEY is missing");
       return;
     }
-    let token = "";
-    if (authKey.startsWith("Bearer")) {
-      token = authKey.split(" ")[1];
-    } else {
-      token = authKey;
-    }
 
     if (token !== apiKey) {
       reply.status(401).send("Invalid API key");
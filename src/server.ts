@@ -1,13 +1,23 @@
 import Server from "@musistudio/llms";
-import { readConfigFile, writeConfigFile, backupConfigFile } from "./utils";
+import { readConfigFile, readRawConfigFile, writeConfigFile, backupConfigFile } from "./utils";
+import { maskSecrets, unmaskSecrets } from "./utils/secrets";
 import { checkForUpdates, performUpdate } from "./utils";
 import { join } from "path";
 import fastifyStatic from "@fastify/static";
 import { readdirSync, statSync, readFileSync, writeFileSync, existsSync } from "fs";
 import { homedir } from "os";
 import { monitoringService } from "./utils/monitoring";
+import { requestStore } from "./utils/requestStore";
+import { replayRequest } from "./utils/replay";
+import { requestQueue } from "./utils/requestQueue";
+import { providerHealthService } from "./utils/providerHealth";
+import { apiKeyService } from "./utils/apiKeys";
+import { prometheusMetrics } from "./utils/prometheus";
+import { countMessageTokens, explainRoute } from "./utils/router";
+import { listModels } from "./utils/modelCapabilities";
 import websocket from "@fastify/websocket";
 import type { FastifyRequest, FastifyReply } from "fastify";
+import type { RouterRequest } from "./types/fastify";
 
 export const createServer = (config: any): Server => {
   const server = new Server(config);
@@ -16,8 +26,10 @@ export const createServer = (config: any): Server => {
   server.app.register(websocket);
 
   // Add endpoint to read config.json with access control
+  // Credentials are masked; `secret:` references and environment variables
+  // are returned as written, so a save keeps them
   server.app.get("/api/config", async () => {
-    return await readConfigFile();
+    return maskSecrets(await readRawConfigFile());
   });
 
   server.app.get("/api/transformers", async () => {
@@ -32,9 +44,88 @@ export const createServer = (config: any): Server => {
     return { transformers: transformerList };
   });
 
+  // Circuit breaker state for every configured provider
+  server.app.get("/api/providers/health", async () => {
+    const providers = (config.initialConfig?.providers || []).map(
+      (provider: any) => provider.name
+    );
+    return { providers: providerHealthService.getHealth(providers) };
+  });
+
+  // Rotation state of the providers with several API keys, by key fingerprint
+  server.app.get("/api/providers/keys", async () => {
+    return { providers: apiKeyService.getKeys() };
+  });
+
+  // Prometheus scrape target; may use METRICS_TOKEN instead of the APIKEY
+  server.app.get("/metrics", async (_req: FastifyRequest, reply: FastifyReply) => {
+    const providers = (config.initialConfig?.providers || []).map(
+      (provider: any) => provider.name
+    );
+    reply.header("content-type", "text/plain; version=0.0.4; charset=utf-8");
+    return prometheusMetrics.render(providers);
+  });
+
+  server.app.get("/v1/models", async () => {
+    return listModels(await readConfigFile());
+  });
+
+  // Token estimate for a Messages API body, without calling any provider
+  server.app.post("/v1/messages/count_tokens", async (req: RouterRequest, reply: FastifyReply) => {
+    const body = req.body || {};
+    if (!Array.isArray(body.messages)) {
+      return reply.status(400).send({
+        error: { type: "invalid_request_error", message: "messages: Field required" },
+      });
+    }
+    // The provider prefix was split off the model by the llms preHandler
+    const model = [req.provider, body.model].filter(Boolean).join(",");
+    const requestId = monitoringService.startRequest(req);
+    const [provider, modelName] = model.includes(",") ? model.split(",") : [undefined, model];
+    try {
+      const inputTokens = countMessageTokens({ ...body, model }, await readConfigFile());
+      monitoringService.updateRequest(requestId, {
+        provider,
+        model: modelName,
+        countedTokens: inputTokens,
+      });
+      monitoringService.endRequest(requestId);
+      return { input_tokens: inputTokens };
+    } catch (error) {
+      monitoringService.endRequest(requestId, null, error);
+      throw error;
+    }
+  });
+
+  // Dry-run the router for a Messages API body without calling any provider
+  server.app.post("/api/route/explain", async (req: FastifyRequest, reply: FastifyReply) => {
+    const body: any = req.body;
+    if (!body || typeof body !== "object" || !Array.isArray(body.messages)) {
+      return reply.status(400).send({ error: "Request body must be a Messages API body with a messages array" });
+    }
+    try {
+      const routerConfig = await readConfigFile();
+      if (config.initialConfig?.OVERRIDE_MODEL) {
+        routerConfig.OVERRIDE_MODEL = config.initialConfig.OVERRIDE_MODEL;
+      }
+      return await explainRoute(body, {
+        config: routerConfig,
+        apiKeyId: monitoringService.getApiKeyId(req.headers)
+      });
+    } catch (error: any) {
+      console.error("Failed to explain route:", error);
+      return reply.status(500).send({ error: error.message || "Failed to explain route" });
+    }
+  });
+
   // Add endpoint to save config.json with access control
-  server.app.post("/api/config", async (req: FastifyRequest) => {
-    const newConfig = req.body;
+  server.app.post("/api/config", async (req: FastifyRequest, reply: FastifyReply) => {
+    let newConfig: any;
+    try {
+      newConfig = unmaskSecrets(req.body, await readRawConfigFile().catch(() => ({})));
+    } catch (error: any) {
+      return reply.code(400).send({ error: error.message });
+    }
 
     // Backup existing config file if it exists
     const backupPath = await backupConfigFile();
@@ -240,6 +331,73 @@ export const createServer = (config: any): Server => {
     }
   });
 
+  server.app.get("/api/monitoring/requests", async (req: FastifyRequest, reply: FastifyReply) => {
+    const { from, to, sessionId, provider, model, status, error, limit, offset } = req.query as any;
+    const parseTime = (value?: string) => {
+      if (!value) return undefined;
+      const date = new Date(/^\d+$/.test(value) ? Number(value) : value);
+      return isNaN(date.getTime()) ? null : date;
+    };
+    const fromDate = parseTime(from);
+    const toDate = parseTime(to);
+    if (fromDate === null || toDate === null) {
+      return reply.status(400).send({ error: "from and to must be ISO dates or epoch milliseconds" });
+    }
+    if (status && !["pending", "success", "error"].includes(status)) {
+      return reply.status(400).send({ error: "status must be one of pending, success, error" });
+    }
+    return requestStore.query({
+      from: fromDate,
+      to: toDate,
+      sessionId,
+      provider,
+      model,
+      status,
+      error,
+      limit: parseInt(limit) || undefined,
+      offset: parseInt(offset) || undefined
+    });
+  });
+
+  server.app.post("/api/monitoring/requests/:id/replay", async (req: FastifyRequest, reply: FastifyReply) => {
+    const { id } = req.params as any;
+    const { model } = (req.body || {}) as any;
+    const routerConfig = await readConfigFile();
+    const [providerName, modelName] = typeof model === "string" ? model.split(",") : [];
+    const provider = (config.initialConfig?.providers || []).find((item: any) => item.name === providerName);
+    if (!provider || !modelName || !provider.models?.includes(modelName)) {
+      return reply.status(400).send({ error: "model must be a configured provider,model target" });
+    }
+
+    const original = monitoringService.getRequest(id) || requestStore.get(id);
+    if (!original) {
+      return reply.status(404).send({ error: `Request ${id} not found` });
+    }
+    if (!original.capture?.routed) {
+      return reply.status(409).send({ error: `Request ${id} has no captured body; enable Capture to replay requests` });
+    }
+
+    return replayRequest(original, model, {
+      port: config.initialConfig.PORT,
+      apiKey: routerConfig.APIKEY,
+      pricing: routerConfig.Pricing
+    });
+  });
+
+  server.app.get("/api/monitoring/costs", async (req: FastifyRequest) => {
+    const { days } = req.query as any;
+    return monitoringService.getCostSummary(parseInt(days) || 30);
+  });
+
+  server.app.get("/api/monitoring/queue", async () => {
+    return { limits: requestQueue.getState() };
+  });
+
+  server.app.get("/api/monitoring/splits", async (req: FastifyRequest) => {
+    const { days } = req.query as any;
+    return { arms: monitoringService.getSplitSummary(parseInt(days) || 7) };
+  });
+
   server.app.delete("/api/monitoring/logs", async (req: FastifyRequest, reply: FastifyReply) => {
     try {
       const { sessionId } = req.query as any;
@@ -0,0 +1,42 @@
+// Fields the router sets on requests while it handles them
+import type { FastifyRequest } from "fastify";
+import type { BudgetScope } from "../utils/budget";
+import type { Span } from "../utils/tracing";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    // Parsed from `metadata.user_id`
+    sessionId?: string;
+    // Id of the request in monitoring; unset for failover hops and hedge legs
+    monitoringId?: string;
+    // Provider of the routed model, set by the llms preHandler
+    provider?: string;
+    traceSpan?: Span;
+    upstreamSpan?: Span;
+    // Frees the `RateLimits` slot of the upstream call
+    releaseUpstreamSlot?: () => void;
+    budgetDowngrade?: BudgetScope[];
+    // Names of the agents that handle the request
+    agents?: string[];
+    routeScenario?: string;
+    routeCandidates?: string[];
+    routeArm?: string;
+    // Index in `routeCandidates` of the model being tried
+    routeAttempt?: number;
+    tokenCount?: number;
+    cacheKey?: string;
+    // The failed upstream call is retried on the next candidate in onSend
+    failoverPending?: boolean;
+    // Aborted when the hedged request closes a leg that lost the race
+    hedgeSignal?: AbortSignal;
+  }
+}
+
+/**
+ * A Messages API request as the hooks see it: the body is the client's JSON,
+ * rewritten in place by routing and the agents.
+ */
+export type RouterRequest = FastifyRequest<{
+  Body: Record<string, any>;
+  Headers: Record<string, string | undefined>;
+}>;
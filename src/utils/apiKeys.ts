@@ -0,0 +1,263 @@
+// Providers with several API keys: upstream calls rotate between the keys and
+// skip the ones that were rejected or used up their daily quota.
+import { AsyncLocalStorage } from 'async_hooks';
+import { fingerprint } from './hash';
+import { monitoringService } from './monitoring';
+import { parseRetryDelay } from './retry';
+import { FetchHandler, upstreamFetch } from './upstreamFetch';
+
+export type ApiKeyEntry = string | { key: string; dailyLimit?: number };
+
+export type KeyRotation = 'round-robin' | 'least-used';
+
+export type ApiKeyState = 'active' | 'benched' | 'exhausted';
+
+export interface ApiKeyHealth {
+  // Fingerprint of the key; the key itself is never exposed
+  id: string;
+  index: number;
+  state: ApiKeyState;
+  benchedUntil?: Date;
+  lastStatus?: number;
+  lastUsedAt?: Date;
+  requests: number;
+  failures: number;
+  requestsToday: number;
+  dailyLimit?: number;
+}
+
+export interface ProviderKeys {
+  provider: string;
+  rotation: KeyRotation;
+  keys: ApiKeyHealth[];
+}
+
+interface PooledKey {
+  key: string;
+  health: ApiKeyHealth;
+  // Day `requestsToday` counts for
+  day: string;
+}
+
+interface KeyContext {
+  req: any;
+  // Monitoring id of the request the key is recorded on
+  requestId?: string;
+}
+
+interface KeyPool {
+  provider: string;
+  rotation: KeyRotation;
+  benchMs: number;
+  keys: PooledKey[];
+  cursor: number;
+}
+
+// Statuses that bench a key: rejected credentials and rate limits
+const BENCH_STATUSES = [401, 403, 429];
+const DEFAULT_BENCH_MS = 60 * 1000;
+// Stands in for the key in the provider handed to llms, and is swapped for a
+// pooled key in the upstream call
+const PLACEHOLDER_PREFIX = 'ccr-key-pool:';
+
+const today = () => new Date().toDateString();
+
+/**
+ * Rotates the upstream calls of providers whose `api_key` is a list between
+ * their keys, round-robin or least used first. A key answered with 401, 403
+ * or 429 is benched for `api_key_bench_ms`, or as long as the upstream's
+ * `Retry-After` asks, and the call moves on to the next active key; a key
+ * with a `dailyLimit` rests once it is reached.
+ */
+class ApiKeyService {
+  private pools: Map<string, KeyPool> = new Map();
+  private storage = new AsyncLocalStorage<KeyContext>();
+
+  /**
+   * Register the providers with several keys. Returns the provider list to
+   * hand to the server, with a placeholder in place of their `api_key`.
+   */
+  configure(providers: any[] = []): any[] {
+    this.pools.clear();
+    const configured = providers.map((provider: any) => {
+      if (!Array.isArray(provider?.api_key)) return provider;
+      const keys = (provider.api_key as ApiKeyEntry[])
+        .map(entry => (typeof entry === 'string' ? { key: entry } : entry))
+        .filter(entry => entry?.key);
+      if (keys.length < 2) {
+        return { ...provider, api_key: keys[0]?.key || '' };
+      }
+      this.pools.set(provider.name, {
+        provider: provider.name,
+        rotation: provider.api_key_rotation === 'least-used' ? 'least-used' : 'round-robin',
+        benchMs: provider.api_key_bench_ms || DEFAULT_BENCH_MS,
+        cursor: 0,
+        keys: keys.map((entry, index) => ({
+          key: entry.key,
+          day: today(),
+          health: {
+            id: fingerprint(entry.key),
+            index,
+            state: 'active',
+            requests: 0,
+            failures: 0,
+            requestsToday: 0,
+            dailyLimit: entry.dailyLimit
+          }
+        }))
+      });
+      return { ...provider, api_key: `${PLACEHOLDER_PREFIX}${provider.name}` };
+    });
+    if (this.pools.size) {
+      upstreamFetch.use('apiKeys', (input, init, next) => this.intercept(input, init, next));
+    }
+    return configured;
+  }
+
+  /**
+   * Run the rest of a request in its own context, so the key its upstream
+   * call uses is recorded on `requestId` and benched keys are logged with it.
+   */
+  run(req: any, requestId: string | undefined, fn: () => void): void {
+    this.storage.run({ req, requestId }, fn);
+  }
+
+  isEnabled(): boolean {
+    return this.pools.size > 0;
+  }
+
+  getKeys(): ProviderKeys[] {
+    return Array.from(this.pools.values()).map(pool => ({
+      provider: pool.provider,
+      rotation: pool.rotation,
+      keys: pool.keys.map(pooled => {
+        this.refresh(pooled);
+        return { ...pooled.health };
+      })
+    }));
+  }
+
+  /**
+   * The key for the next call of a pool. When no key is active, the one
+   * benched for the shortest time is used rather than failing the request.
+   */
+  private pick(pool: KeyPool): PooledKey {
+    pool.keys.forEach(pooled => this.refresh(pooled));
+    const active = pool.keys.filter(pooled => pooled.health.state === 'active');
+    if (!active.length) {
+      const benched = pool.keys.filter(pooled => pooled.health.state === 'benched');
+      const candidates = benched.length ? benched : pool.keys;
+      return candidates.reduce((a, b) =>
+        (a.health.benchedUntil?.getTime() || 0) <= (b.health.benchedUntil?.getTime() || 0) ? a : b
+      );
+    }
+    if (pool.rotation === 'least-used') {
+      return active.reduce((a, b) => (b.health.requestsToday < a.health.requestsToday ? b : a));
+    }
+    // Round-robin over the key positions, skipping keys that are resting
+    for (let step = 0; step < pool.keys.length; step++) {
+      const pooled = pool.keys[(pool.cursor + step) % pool.keys.length];
+      if (pooled.health.state === 'active') {
+        pool.cursor = (pooled.health.index + 1) % pool.keys.length;
+        return pooled;
+      }
+    }
+    return active[0];
+  }
+
+  private refresh(pooled: PooledKey): void {
+    const { health } = pooled;
+    if (pooled.day !== today()) {
+      pooled.day = today();
+      health.requestsToday = 0;
+    }
+    if (health.state === 'benched' && (health.benchedUntil?.getTime() || 0) <= Date.now()) {
+      health.benchedUntil = undefined;
+    }
+    if (health.benchedUntil) {
+      health.state = 'benched';
+    } else if (health.dailyLimit && health.requestsToday >= health.dailyLimit) {
+      health.state = 'exhausted';
+    } else {
+      health.state = 'active';
+    }
+  }
+
+  private record(pool: KeyPool, pooled: PooledKey, response: Response): void {
+    const { health } = pooled;
+    health.lastStatus = response.status;
+    if (response.ok) return;
+    health.failures++;
+    if (BENCH_STATUSES.includes(response.status)) {
+      const delay = response.status === 429 ? parseRetryDelay(response.headers) : undefined;
+      health.benchedUntil = new Date(Date.now() + (delay ?? pool.benchMs));
+      health.state = 'benched';
+      this.storage.getStore()?.req.log?.warn(`API key #${health.index + 1} of ${pool.provider} answered ${response.status}, benched until ${health.benchedUntil.toISOString()}`);
+    }
+  }
+
+  private async intercept(input: any, init: any, next: FetchHandler): Promise<Response> {
+    const pool = init?.headers ? this.findPool(init.headers) : undefined;
+    if (!pool) {
+      return next(input, init);
+    }
+
+    const placeholder = `${PLACEHOLDER_PREFIX}${pool.provider}`;
+    const requestId = this.storage.getStore()?.requestId;
+    const tried: Set<PooledKey> = new Set();
+    while (true) {
+      const pooled = this.pick(pool);
+      tried.add(pooled);
+      const headers = new Headers(init.headers);
+      Array.from(headers.entries())
+        .filter(([, value]) => value.includes(placeholder))
+        .forEach(([name, value]) => headers.set(name, value.split(placeholder).join(pooled.key)));
+      pooled.health.requests++;
+      pooled.health.requestsToday++;
+      pooled.health.lastUsedAt = new Date();
+      if (requestId) {
+        monitoringService.recordProviderKey(requestId, pooled.health.id);
+      }
+
+      let response: Response;
+      try {
+        response = await next(input, { ...init, headers });
+      } catch (error: any) {
+        if (error?.name !== 'AbortError') {
+          pooled.health.failures++;
+        }
+        throw error;
+      }
+      this.record(pool, pooled, response);
+      // A benched key hands the call over to the next active key right away
+      if (pooled.health.state !== 'benched' || !this.hasUntriedKey(pool, tried)) {
+        return response;
+      }
+      await response.body?.cancel().catch(() => {});
+    }
+  }
+
+  private hasUntriedKey(pool: KeyPool, tried: Set<PooledKey>): boolean {
+    return pool.keys.some(pooled => {
+      this.refresh(pooled);
+      return pooled.health.state === 'active' && !tried.has(pooled);
+    });
+  }
+
+  private findPool(init: HeadersInit): KeyPool | undefined {
+    const values = init instanceof Headers
+      ? Array.from(init.values())
+      : Object.values(init as Record<string, string>);
+    for (const value of values) {
+      const index = typeof value === 'string' ? value.indexOf(PLACEHOLDER_PREFIX) : -1;
+      if (index >= 0) {
+        const provider = value.slice(index + PLACEHOLDER_PREFIX.length).split(/\s/)[0];
+        return this.pools.get(provider);
+      }
+    }
+    return undefined;
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,92 @@
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const logFile = vi.hoisted(() => ({ path: '' }));
+
+vi.mock('./monitoring', () => ({
+  monitoringService: { getRequestLogFile: () => logFile.path }
+}));
+
+import { budgetService } from './budget';
+
+const dir = mkdtempSync(join(tmpdir(), 'ccr-budget-'));
+let day = 0;
+
+const log = (...requests: Record<string, any>[]) => {
+  appendFileSync(logFile.path, requests.map(request => JSON.stringify(request) + '\n').join(''));
+};
+
+describe('budgetService', () => {
+  beforeEach(() => {
+    // A new log file resets the ledger, as a new day does
+    logFile.path = join(dir, `requests-${++day}.jsonl`);
+    writeFileSync(logFile.path, '');
+    budgetService.configure({}, 'router-1');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is disabled without limits', () => {
+    log({ id: 'a', cost: 100 });
+    expect(budgetService.isEnabled()).toBe(false);
+    expect(budgetService.check()).toEqual({ downgrade: [] });
+  });
+
+  it('adds up cost and tokens per scope', () => {
+    log(
+      { id: 'a', cost: 1, inputTokens: 10, outputTokens: 5, routerSessionId: 'router-1', apiKeyId: 'k1' },
+      { id: 'b', cost: 2, inputTokens: 20, outputTokens: 5, routerSessionId: 'router-2' },
+      { id: 'c', countedTokens: 1000 }
+    );
+    expect(budgetService.getUsage('daily')).toEqual({ cost: 3, tokens: 40 });
+    expect(budgetService.getUsage('session')).toEqual({ cost: 1, tokens: 15 });
+    expect(budgetService.getUsage('apiKey', 'k1')).toEqual({ cost: 1, tokens: 15 });
+    expect(budgetService.getUsage('apiKey')).toEqual({ cost: 0, tokens: 0 });
+  });
+
+  it('counts a request persisted twice once, with its last entry', () => {
+    log({ id: 'a', cost: 1, inputTokens: 10 });
+    expect(budgetService.getUsage('daily').cost).toBe(1);
+    log({ id: 'a', cost: 4, inputTokens: 30 });
+    expect(budgetService.getUsage('daily')).toEqual({ cost: 4, tokens: 30 });
+  });
+
+  it('counts the tokens of hedge legs that lost', () => {
+    log({
+      id: 'a',
+      inputTokens: 10,
+      outputTokens: 10,
+      hedge: [
+        { model: 'p,a', outcome: 'won', inputTokens: 10, outputTokens: 10 },
+        { model: 'p,b', outcome: 'lost', inputTokens: 10, outputTokens: 2 }
+      ]
+    });
+    expect(budgetService.getUsage('daily').tokens).toBe(32);
+  });
+
+  it('leaves a partially written line for the next read', () => {
+    appendFileSync(logFile.path, JSON.stringify({ id: 'a', cost: 1 }).slice(0, 10));
+    expect(budgetService.getUsage('daily').cost).toBe(0);
+    appendFileSync(logFile.path, JSON.stringify({ id: 'a', cost: 1 }).slice(10) + '\n');
+    expect(budgetService.getUsage('daily').cost).toBe(1);
+  });
+
+  it('downgrades past a soft limit and rejects at a hard limit', () => {
+    budgetService.configure(
+      { daily: { softCost: 1, hardCost: 5 }, apiKey: { hardTokens: 100 } },
+      'router-1'
+    );
+    log({ id: 'a', cost: 2, inputTokens: 50, apiKeyId: 'k1' });
+    expect(budgetService.check('k1')).toEqual({ downgrade: ['daily'] });
+
+    log({ id: 'b', cost: 1, inputTokens: 50, apiKeyId: 'k1' });
+    const check = budgetService.check('k1');
+    expect(check.downgrade).toEqual(['daily']);
+    expect(check.rejection).toContain('The apiKey budget of claude-code-router is exhausted');
+    expect(budgetService.check('k2').rejection).toBeUndefined();
+  });
+});
@@ -0,0 +1,189 @@
+import { closeSync, existsSync, openSync, readSync, statSync } from 'fs';
+import { monitoringService, RequestLog } from './monitoring';
+
+export interface BudgetLimit {
+  // USD, from the `Pricing` table
+  softCost?: number;
+  hardCost?: number;
+  // Input plus output tokens
+  softTokens?: number;
+  hardTokens?: number;
+}
+
+export interface BudgetsConfig {
+  // All requests of the day
+  daily?: BudgetLimit;
+  // Requests of this `ccr start` session
+  session?: BudgetLimit;
+  // Requests of each client API key, separately
+  apiKey?: BudgetLimit;
+  // Route target used once a soft limit is crossed
+  downgradeModel?: string | string[];
+}
+
+export type BudgetScope = 'daily' | 'session' | 'apiKey';
+
+export interface BudgetUsage {
+  cost: number;
+  tokens: number;
+}
+
+export interface BudgetCheck {
+  // Scopes whose soft limit was crossed
+  downgrade: BudgetScope[];
+  // Set when a hard limit was reached and the request must be rejected
+  rejection?: string;
+}
+
+interface LedgerEntry {
+  keys: string[];
+  usage: BudgetUsage;
+}
+
+const SCOPES: BudgetScope[] = ['daily', 'session', 'apiKey'];
+
+const formatUsage = (value: number, unit: 'cost' | 'tokens') => {
+  return unit === 'cost' ? `$${value.toFixed(2)}` : `${value.toLocaleString()} tokens`;
+};
+
+/**
+ * Enforces the `Budgets` limits. Usage is read from today's request log, which
+ * every running session appends to, so the daily limit holds across sessions.
+ * All budgets reset at local midnight.
+ */
+class BudgetService {
+  private budgets: BudgetsConfig = {};
+  private routerSessionId = 'default';
+  private logFile = '';
+  private offset = 0;
+  private entries: Map<string, LedgerEntry> = new Map();
+  private usage: Map<string, BudgetUsage> = new Map();
+
+  configure(budgets: BudgetsConfig = {}, routerSessionId?: string): void {
+    this.budgets = budgets;
+    this.routerSessionId = routerSessionId || 'default';
+  }
+
+  isEnabled(): boolean {
+    return SCOPES.some(scope => !!this.budgets[scope]);
+  }
+
+  getDowngradeModel(): string | string[] | undefined {
+    return this.budgets.downgradeModel;
+  }
+
+  private getKey(scope: BudgetScope, apiKeyId?: string): string | undefined {
+    if (scope === 'daily') return 'daily';
+    if (scope === 'session') return `session:${this.routerSessionId}`;
+    return apiKeyId ? `apiKey:${apiKeyId}` : undefined;
+  }
+
+  private getKeys(request: RequestLog): string[] {
+    return [
+      'daily',
+      `session:${request.routerSessionId || 'default'}`,
+      ...(request.apiKeyId ? [`apiKey:${request.apiKeyId}`] : [])
+    ];
+  }
+
+  private record(request: RequestLog): void {
+    if (!request?.id || request.countedTokens !== undefined) return;
+    // A request may be persisted more than once; the last entry wins
+    const previous = this.entries.get(request.id);
+    if (previous) {
+      previous.keys.forEach(key => this.add(key, previous.usage, -1));
+    }
+    const entry: LedgerEntry = {
+      keys: this.getKeys(request),
+      usage: {
+        cost: request.cost || 0,
+        tokens: [request, ...(request.hedge || []).filter(leg => leg.outcome !== 'won')]
+          .reduce((sum, usage) => sum + (usage.inputTokens || 0) + (usage.outputTokens || 0), 0)
+      }
+    };
+    entry.keys.forEach(key => this.add(key, entry.usage, 1));
+    this.entries.set(request.id, entry);
+  }
+
+  private add(key: string, usage: BudgetUsage, sign: number): void {
+    const total = this.usage.get(key) || { cost: 0, tokens: 0 };
+    total.cost += sign * usage.cost;
+    total.tokens += sign * usage.tokens;
+    this.usage.set(key, total);
+  }
+
+  /**
+   * Read the lines appended to today's request log since the last call.
+   */
+  private refresh(): void {
+    const logFile = monitoringService.getRequestLogFile();
+    if (logFile !== this.logFile) {
+      this.logFile = logFile;
+      this.offset = 0;
+      this.entries.clear();
+      this.usage.clear();
+    }
+    if (!existsSync(logFile)) return;
+
+    const size = statSync(logFile).size;
+    if (size <= this.offset) return;
+    const buffer = Buffer.alloc(size - this.offset);
+    const fd = openSync(logFile, 'r');
+    try {
+      readSync(fd, buffer, 0, buffer.length, this.offset);
+    } finally {
+      closeSync(fd);
+    }
+    // Leave a partially written last line for the next call
+    const end = buffer.lastIndexOf('\n');
+    if (end < 0) return;
+    this.offset += end + 1;
+    buffer.subarray(0, end).toString('utf-8').split('\n').forEach(line => {
+      if (!line.trim()) return;
+      try {
+        this.record(JSON.parse(line));
+      } catch {}
+    });
+  }
+
+  getUsage(scope: BudgetScope, apiKeyId?: string): BudgetUsage {
+    this.refresh();
+    const key = this.getKey(scope, apiKeyId);
+    return (key && this.usage.get(key)) || { cost: 0, tokens: 0 };
+  }
+
+  /**
+   * Compare today's usage against every configured limit.
+   */
+  check(apiKeyId?: string): BudgetCheck {
+    const result: BudgetCheck = { downgrade: [] };
+    if (!this.isEnabled()) return result;
+
+    for (const scope of SCOPES) {
+      const limit = this.budgets[scope];
+      if (!limit || (scope === 'apiKey' && !apiKeyId)) continue;
+      const usage = this.getUsage(scope, apiKeyId);
+
+      const hard: [number, number | undefined, 'cost' | 'tokens'][] = [
+        [usage.cost, limit.hardCost, 'cost'],
+        [usage.tokens, limit.hardTokens, 'tokens']
+      ];
+      const reached = hard.find(([used, max]) => typeof max === 'number' && used >= max);
+      if (reached && !result.rejection) {
+        const [used, max, unit] = reached;
+        result.rejection = `The ${scope} budget of claude-code-router is exhausted: ${formatUsage(used, unit)} used of ${formatUsage(max!, unit)}. It resets at midnight; raise Budgets.${scope} in the config to continue now.`;
+      }
+
+      if (
+        (typeof limit.softCost === 'number' && usage.cost >= limit.softCost) ||
+        (typeof limit.softTokens === 'number' && usage.tokens >= limit.softTokens)
+      ) {
+        result.downgrade.push(scope);
+      }
+    }
+    return result;
+  }
+}
+
+// Export singleton instance
+export const budgetService = new BudgetService();
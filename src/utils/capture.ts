@@ -0,0 +1,297 @@
+// Opt-in capture of request and response bodies, for debugging what a provider
+// was actually sent and what came back.
+import { AsyncLocalStorage } from 'async_hooks';
+import { monitoringService } from './monitoring';
+import { FetchHandler, getRequestUrl, upstreamFetch } from './upstreamFetch';
+
+export interface RedactionRule {
+  pattern: string;
+  flags?: string;
+  replacement?: string;
+}
+
+export interface CaptureConfig {
+  enabled?: boolean;
+  // Captured bodies larger than this are stored truncated, as text
+  maxBodyBytes?: number;
+  redact?: {
+    // API keys and tokens, in values and in fields like `api_key` or `authorization`
+    apiKeys?: boolean;
+    emails?: boolean;
+    // Regular expressions, or rules with flags and a replacement
+    patterns?: (string | RedactionRule)[];
+  };
+}
+
+export interface CapturedRequest {
+  url: string;
+  body: any;
+  truncated?: boolean;
+}
+
+export interface CapturedToolUse {
+  id?: string;
+  name: string;
+  input: any;
+}
+
+export interface CapturedResponse {
+  text?: string;
+  thinking?: string;
+  toolUse: CapturedToolUse[];
+  stopReason?: string;
+  usage?: Record<string, any>;
+}
+
+export interface RequestCapture {
+  // Messages API body as routed, before transformers; replays re-send it
+  routed?: any;
+  // Body sent to the provider, after transformers
+  request?: CapturedRequest;
+  // Response as returned to the client
+  response?: CapturedResponse;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 512 * 1024;
+const REDACTED = '[REDACTED]';
+const REDACTED_EMAIL = '[REDACTED_EMAIL]';
+
+const SECRET_FIELDS = /^(api[-_]?key|x-api-key|authorization|access[-_]?token|refresh[-_]?token|secret|client[-_]?secret|password)$/i;
+
+const API_KEY_PATTERNS = [
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\bAIza[0-9A-Za-z_-]{30,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\b(?:ghp|gho|ghs|github_pat)_[A-Za-z0-9_]{16,}/g,
+  /\bxox[abpr]-[A-Za-z0-9-]{10,}/g,
+  /\bBearer\s+[A-Za-z0-9._~+/=-]{16,}/g
+];
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+/**
+ * Rebuilds the text, thinking and tool calls of an Anthropic Messages
+ * response from its SSE events.
+ */
+export class ResponseAssembler {
+  private text = '';
+  private thinking = '';
+  private blocks: Map<number, CapturedToolUse & { json: string }> = new Map();
+  private stopReason?: string;
+  private usage?: Record<string, any>;
+  private pending = '';
+
+  /**
+   * Feed raw SSE text. Chunks may hold several events or end mid-line.
+   */
+  write(chunk: string): void {
+    const lines = (this.pending + chunk).split('\n');
+    this.pending = lines.pop() || '';
+    lines.forEach(line => {
+      if (!line.startsWith('data: ')) return;
+      try {
+        this.push(JSON.parse(line.slice(6)));
+      } catch {}
+    });
+  }
+
+  push(event: any): void {
+    switch (event?.type) {
+      case 'message_start':
+        this.usage = { ...this.usage, ...event.message?.usage };
+        break;
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use') {
+          this.blocks.set(event.index, {
+            id: event.content_block.id,
+            name: event.content_block.name,
+            input: {},
+            json: ''
+          });
+        } else if (event.content_block?.type === 'text' && event.content_block.text) {
+          this.text += event.content_block.text;
+        }
+        break;
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta') {
+          this.text += event.delta.text || '';
+        } else if (event.delta?.type === 'thinking_delta') {
+          this.thinking += event.delta.thinking || '';
+        } else if (event.delta?.type === 'input_json_delta') {
+          const block = this.blocks.get(event.index);
+          if (block) block.json += event.delta.partial_json || '';
+        }
+        break;
+      case 'message_delta':
+        this.stopReason = event.delta?.stop_reason ?? this.stopReason;
+        this.usage = { ...this.usage, ...event.usage };
+        break;
+    }
+  }
+
+  result(): CapturedResponse {
+    return {
+      text: this.text || undefined,
+      thinking: this.thinking || undefined,
+      toolUse: Array.from(this.blocks.values()).map(({ json, ...toolUse }) => {
+        try {
+          return { ...toolUse, input: json ? JSON.parse(json) : {} };
+        } catch {
+          // Kept as received, which is usually what needs debugging
+          return { ...toolUse, input: json };
+        }
+      }),
+      stopReason: this.stopReason,
+      usage: this.usage
+    };
+  }
+
+  static fromMessage(message: any): CapturedResponse {
+    const content = Array.isArray(message?.content) ? message.content : [];
+    const join = (type: string, field: string) =>
+      content.filter((block: any) => block?.type === type).map((block: any) => block[field]).join('') || undefined;
+    return {
+      text: join('text', 'text'),
+      thinking: join('thinking', 'thinking'),
+      toolUse: content
+        .filter((block: any) => block?.type === 'tool_use')
+        .map((block: any) => ({ id: block.id, name: block.name, input: block.input })),
+      stopReason: message?.stop_reason,
+      usage: message?.usage
+    };
+  }
+}
+
+class CaptureService {
+  private config: CaptureConfig = {};
+  private rules: { pattern: RegExp; replacement: string }[] = [];
+  private providerHosts: Set<string> = new Set();
+  private storage = new AsyncLocalStorage<string>();
+
+  configure(config: CaptureConfig = {}, providers: any[] = []): void {
+    this.config = config;
+    this.providerHosts = new Set(
+      providers
+        .map((provider: any) => {
+          try {
+            return new URL(provider.api_base_url).host;
+          } catch {
+            return undefined;
+          }
+        })
+        .filter((host): host is string => !!host)
+    );
+
+    const redact = config.redact || {};
+    this.rules = [];
+    if (redact.apiKeys !== false) {
+      API_KEY_PATTERNS.forEach(pattern => this.rules.push({ pattern, replacement: REDACTED }));
+    }
+    if (redact.emails !== false) {
+      this.rules.push({ pattern: EMAIL_PATTERN, replacement: REDACTED_EMAIL });
+    }
+    (redact.patterns || []).forEach(rule => {
+      const { pattern, flags, replacement } = typeof rule === 'string' ? { pattern: rule } as RedactionRule : rule;
+      try {
+        const regexFlags = flags || '';
+        this.rules.push({
+          pattern: new RegExp(pattern, regexFlags.includes('g') ? regexFlags : `${regexFlags}g`),
+          replacement: replacement ?? REDACTED
+        });
+      } catch (e: any) {
+        console.warn(`Ignoring invalid Capture redaction pattern '${pattern}': ${e.message}`);
+      }
+    });
+
+    if (this.isEnabled()) {
+      upstreamFetch.use('capture', (input, init, next) => this.intercept(input, init, next));
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled === true;
+  }
+
+  /**
+   * Run the rest of a request in the context of `requestId`, so the upstream
+   * call it makes is captured for it.
+   */
+  run(requestId: string, fn: () => void): void {
+    this.storage.run(requestId, fn);
+  }
+
+  /**
+   * Store the routed Messages API body of a request. Bodies over
+   * `maxBodyBytes` are left out, as a truncated body cannot be replayed.
+   */
+  recordRouted(requestId: string, body: any): void {
+    const routed = this.redactValue(body);
+    if (Buffer.byteLength(JSON.stringify(routed)) > this.getMaxBodyBytes()) return;
+    monitoringService.recordCapture(requestId, { routed });
+  }
+
+  /**
+   * Store the reassembled response of a request.
+   */
+  recordResponse(requestId: string, response: CapturedResponse): void {
+    monitoringService.recordCapture(requestId, { response: this.redactValue(response) });
+  }
+
+  private getMaxBodyBytes(): number {
+    return this.config.maxBodyBytes || DEFAULT_MAX_BODY_BYTES;
+  }
+
+  private redactValue(value: any, key?: string): any {
+    if (typeof value === 'string') {
+      if (key && this.config.redact?.apiKeys !== false && SECRET_FIELDS.test(key)) {
+        return REDACTED;
+      }
+      return this.rules.reduce((text, rule) => text.replace(rule.pattern, rule.replacement), value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([field, item]) => [field, this.redactValue(item, field)]));
+    }
+    return value;
+  }
+
+  private intercept(input: any, init: any, next: FetchHandler): Promise<Response> {
+    const requestId = this.storage.getStore();
+    const url = getRequestUrl(input);
+    if (requestId && url && this.isProviderCall(url, init)) {
+      this.captureRequest(requestId, url, init.body);
+    }
+    return next(input, init);
+  }
+
+  private isProviderCall(url: string, init?: any): boolean {
+    if (!this.isEnabled() || init?.method !== 'POST' || typeof init?.body !== 'string') {
+      return false;
+    }
+    try {
+      return this.providerHosts.has(new URL(url).host);
+    } catch {
+      return false;
+    }
+  }
+
+  private captureRequest(requestId: string, url: string, rawBody: string): void {
+    let body: any = rawBody;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {}
+    const request: CapturedRequest = { url, body: this.redactValue(body) };
+    const maxBytes = this.getMaxBodyBytes();
+    const text = typeof request.body === 'string' ? request.body : JSON.stringify(request.body);
+    if (Buffer.byteLength(text) > maxBytes) {
+      request.body = Buffer.from(text).subarray(0, maxBytes).toString('utf-8');
+      request.truncated = true;
+    }
+    monitoringService.recordCapture(requestId, { request });
+  }
+}
+
+// Export singleton instance
+export const captureService = new CaptureService();
@@ -0,0 +1,177 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { HOME_DIR } from '../constants';
+import { hashValue } from './hash';
+import { FetchHandler, getRequestUrl, upstreamFetch } from './upstreamFetch';
+
+export type RecordMode = 'record' | 'replay' | 'passthrough';
+
+export interface Cassette {
+  recordedAt: string;
+  request: {
+    url: string;
+    body: any;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    // Response body as received, one entry per network chunk
+    chunks: string[];
+  };
+}
+
+const RECORD_MODES: RecordMode[] = ['record', 'replay', 'passthrough'];
+
+/**
+ * Records upstream provider calls to a cassette directory and replays them
+ * without network access. Calls are intercepted at `fetch`, after the
+ * provider transformers ran, so routers, transformers and the `onSend` stream
+ * handling are exercised exactly as with a live provider.
+ */
+class CassetteService {
+  private mode: RecordMode = 'passthrough';
+  private cassetteDir = join(HOME_DIR, 'cassettes');
+  private providerHosts: Set<string> = new Set();
+
+  configure(config: any = {}): void {
+    const mode = config.RECORD_MODE || 'passthrough';
+    if (!RECORD_MODES.includes(mode)) {
+      console.warn(`Unknown RECORD_MODE '${mode}', using passthrough`);
+    }
+    this.mode = RECORD_MODES.includes(mode) ? mode : 'passthrough';
+    this.cassetteDir = config.CASSETTE_DIR || join(HOME_DIR, 'cassettes');
+    this.providerHosts = new Set(
+      (config.Providers || [])
+        .map((provider: any) => {
+          try {
+            return new URL(provider.api_base_url).host;
+          } catch {
+            return undefined;
+          }
+        })
+        .filter(Boolean)
+    );
+
+    if (this.mode !== 'passthrough') {
+      if (!existsSync(this.cassetteDir)) {
+        mkdirSync(this.cassetteDir, { recursive: true });
+      }
+      upstreamFetch.use('cassette', (input, init, next) => this.intercept(input, init, next));
+      console.log(`RECORD_MODE ${this.mode}: cassettes in ${this.cassetteDir}`);
+    }
+  }
+
+  getMode(): RecordMode {
+    return this.mode;
+  }
+
+  /**
+   * Cassettes match on the model and messages of the upstream request body.
+   */
+  getKey(body: any): string {
+    return hashValue({
+      model: body?.model,
+      messages: body?.messages,
+      stream: body?.stream === true
+    });
+  }
+
+  private getPath(key: string): string {
+    return join(this.cassetteDir, `${key}.json`);
+  }
+
+  private async intercept(input: any, init: any, next: FetchHandler): Promise<Response> {
+    const url = getRequestUrl(input);
+    if (!url || !this.isProviderCall(url, init)) {
+      return next(input, init);
+    }
+    let body: any;
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      return next(input, init);
+    }
+    if (this.mode === 'replay') {
+      return this.replay(body);
+    }
+    return this.record(url, body, await next(input, init));
+  }
+
+  private isProviderCall(url: string, init?: any): boolean {
+    if (this.mode === 'passthrough' || init?.method !== 'POST' || typeof init?.body !== 'string') {
+      return false;
+    }
+    try {
+      return this.providerHosts.has(new URL(url).host);
+    } catch {
+      return false;
+    }
+  }
+
+  private replay(body: any): Response {
+    const key = this.getKey(body);
+    const path = this.getPath(key);
+    if (!existsSync(path)) {
+      return new Response(JSON.stringify({
+        error: {
+          type: 'cassette_not_found',
+          message: `No cassette recorded for model ${body?.model} (${key})`
+        }
+      }), { status: 404, headers: { 'content-type': 'application/json' } });
+    }
+    const cassette: Cassette = JSON.parse(readFileSync(path, 'utf-8'));
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      start(controller) {
+        cassette.response.chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      }
+    });
+    return new Response(stream, {
+      status: cassette.response.status,
+      headers: cassette.response.headers
+    });
+  }
+
+  private record(url: string, body: any, response: Response): Response {
+    if (!response.body) return response;
+    const [clientStream, recordStream] = response.body.tee();
+    const headers: Record<string, string> = {};
+    const contentType = response.headers.get('content-type');
+    if (contentType) {
+      headers['content-type'] = contentType;
+    }
+
+    const save = async () => {
+      const chunks: string[] = [];
+      const decoder = new TextDecoder();
+      const reader = recordStream.getReader();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          chunks.push(decoder.decode(value, { stream: true }));
+        }
+      } finally {
+        reader.releaseLock();
+      }
+      const cassette: Cassette = {
+        recordedAt: new Date().toISOString(),
+        // Query strings may carry API keys
+        request: { url: url.split('?')[0], body },
+        response: { status: response.status, headers, chunks }
+      };
+      writeFileSync(this.getPath(this.getKey(body)), JSON.stringify(cassette, null, 2));
+    };
+    save().catch(e => console.error('Failed to record cassette:', e));
+
+    return new Response(clientStream, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  }
+}
+
+// Export singleton instance
+export const cassetteService = new CassetteService();
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { toChatCompletion, toMessagesRequest } from "./chatCompletions";
+
+describe("toMessagesRequest", () => {
+  it("converts messages, tools and sampling options", () => {
+    const request = toMessagesRequest({
+      model: "gpt-4o",
+      user: "alice",
+      temperature: 0.2,
+      stop: "END",
+      messages: [
+        { role: "system", content: "Be brief" },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+          ],
+        },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: "call_1", function: { name: "lookup", arguments: '{"q":"a"}' } },
+            { id: "call_2", function: { name: "lookup", arguments: "not json" } },
+          ],
+        },
+        { role: "tool", tool_call_id: "call_1", content: "one" },
+        { role: "tool", tool_call_id: "call_2", content: "two" },
+      ],
+      tools: [{ type: "function", function: { name: "lookup", parameters: { type: "object" } } }],
+      tool_choice: "required",
+    });
+
+    expect(request).toEqual({
+      model: "gpt-4o",
+      system: [{ type: "text", text: "Be brief" }],
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: "AAAA" } },
+          ],
+        },
+        {
+          role: "assistant",
+          content: [
+            { type: "tool_use", id: "call_1", name: "lookup", input: { q: "a" } },
+            { type: "tool_use", id: "call_2", name: "lookup", input: {} },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "call_1", content: "one" },
+            { type: "tool_result", tool_use_id: "call_2", content: "two" },
+          ],
+        },
+      ],
+      max_tokens: 8192,
+      stream: false,
+      temperature: 0.2,
+      stop_sequences: ["END"],
+      tools: [{ name: "lookup", description: undefined, input_schema: { type: "object" } }],
+      tool_choice: { type: "any" },
+      metadata: { user_id: "openai_session_alice" },
+    });
+  });
+
+  it("gives requests without a user a session of their own", () => {
+    const messages = [{ role: "user", content: "hi" }];
+    expect(toMessagesRequest({ messages }, "s1").metadata).toEqual({
+      user_id: "openai_session_s1",
+    });
+    const first = toMessagesRequest({ messages }).metadata.user_id;
+    const second = toMessagesRequest({ messages }).metadata.user_id;
+    expect(first).toMatch(/^openai_session_/);
+    expect(first).not.toBe(second);
+  });
+
+  it("drops tool_choice when no tool is sent", () => {
+    const request = toMessagesRequest({ messages: [], tool_choice: "auto", max_tokens: 10 });
+    expect(request.tool_choice).toBeUndefined();
+    expect(request.max_tokens).toBe(10);
+  });
+});
+
+describe("toChatCompletion", () => {
+  it("converts content, tool calls and usage", () => {
+    const completion = toChatCompletion({
+      id: "msg_1",
+      model: "claude",
+      stop_reason: "tool_use",
+      content: [
+        { type: "thinking", thinking: "hmm" },
+        { type: "text", text: "Let me look" },
+        { type: "tool_use", id: "tu_1", name: "lookup", input: { q: "a" } },
+      ],
+      usage: { input_tokens: 3, output_tokens: 4 },
+    });
+
+    expect(completion.object).toBe("chat.completion");
+    expect(completion.choices).toEqual([
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: "Let me look",
+          reasoning_content: "hmm",
+          tool_calls: [
+            { id: "tu_1", type: "function", function: { name: "lookup", arguments: '{"q":"a"}' } },
+          ],
+        },
+        finish_reason: "tool_calls",
+      },
+    ]);
+    expect(completion.usage).toEqual({ prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 });
+  });
+
+  it("maps max_tokens to length and leaves empty content null", () => {
+    const completion = toChatCompletion({ content: [], stop_reason: "max_tokens" });
+    expect(completion.choices[0].message.content).toBeNull();
+    expect(completion.choices[0].finish_reason).toBe("length");
+  });
+});
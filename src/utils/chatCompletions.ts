@@ -0,0 +1,361 @@
+// OpenAI Chat Completions compatibility for the inbound `/v1/chat/completions`
+// endpoint. Requests are converted to the Anthropic Messages shape and sent
+// through `/v1/messages`, so routing, agents and monitoring apply unchanged.
+import { randomUUID } from "crypto";
+import { SSEParserTransform } from "./SSEParser.transform";
+import { SSESerializerTransform } from "./SSESerializer.transform";
+
+// Anthropic requires max_tokens, OpenAI clients usually leave it out
+const DEFAULT_MAX_TOKENS = 8192;
+
+const FINISH_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+};
+
+const toFinishReason = (stopReason?: string | null): string | null => {
+  if (!stopReason) return null;
+  return FINISH_REASONS[stopReason] || "stop";
+};
+
+const toText = (content: any): string => {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((part: any) => part?.type === "text")
+      .map((part: any) => part.text)
+      .join("");
+  }
+  return "";
+};
+
+const parseArguments = (args: any): any => {
+  if (typeof args !== "string") return args || {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+};
+
+const convertImage = (url: string): any => {
+  const match = url.match(/^data:([^;]+);base64,(.*)$/s);
+  if (match) {
+    return {
+      type: "image",
+      source: { type: "base64", media_type: match[1], data: match[2] },
+    };
+  }
+  return { type: "image", source: { type: "url", url } };
+};
+
+const convertUserContent = (content: any): any => {
+  if (!Array.isArray(content)) return content ?? "";
+  return content
+    .map((part: any) => {
+      if (part?.type === "text") return { type: "text", text: part.text };
+      if (part?.type === "image_url") {
+        return convertImage(part.image_url?.url || "");
+      }
+      return undefined;
+    })
+    .filter(Boolean);
+};
+
+const convertToolChoice = (toolChoice: any): any => {
+  if (!toolChoice) return undefined;
+  if (toolChoice === "auto") return { type: "auto" };
+  if (toolChoice === "required") return { type: "any" };
+  if (toolChoice === "none") return { type: "none" };
+  if (toolChoice.type === "function" && toolChoice.function?.name) {
+    return { type: "tool", name: toolChoice.function.name };
+  }
+  return undefined;
+};
+
+/**
+ * Convert an OpenAI Chat Completions request body into an Anthropic Messages
+ * request body. Requests without a `user` get a session of their own, as
+ * usage and monitoring are completed per session.
+ */
+export const toMessagesRequest = (body: any, sessionId: string = randomUUID()): any => {
+  const system: any[] = [];
+  const messages: any[] = [];
+
+  for (const message of Array.isArray(body.messages) ? body.messages : []) {
+    if (message.role === "system" || message.role === "developer") {
+      const text = toText(message.content);
+      if (text) system.push({ type: "text", text });
+    } else if (message.role === "user") {
+      messages.push({ role: "user", content: convertUserContent(message.content) });
+    } else if (message.role === "assistant") {
+      const content: any[] = [];
+      const text = toText(message.content);
+      if (text) content.push({ type: "text", text });
+      for (const toolCall of message.tool_calls || []) {
+        content.push({
+          type: "tool_use",
+          id: toolCall.id,
+          name: toolCall.function?.name,
+          input: parseArguments(toolCall.function?.arguments),
+        });
+      }
+      messages.push({ role: "assistant", content });
+    } else if (message.role === "tool") {
+      const result = {
+        type: "tool_result",
+        tool_use_id: message.tool_call_id,
+        content: toText(message.content),
+      };
+      // Results of parallel tool calls belong in a single user turn
+      const last = messages[messages.length - 1];
+      if (
+        last?.role === "user" &&
+        Array.isArray(last.content) &&
+        last.content.every((part: any) => part.type === "tool_result")
+      ) {
+        last.content.push(result);
+      } else {
+        messages.push({ role: "user", content: [result] });
+      }
+    }
+  }
+
+  const request: any = {
+    model: body.model,
+    messages,
+    max_tokens: body.max_completion_tokens || body.max_tokens || DEFAULT_MAX_TOKENS,
+    stream: body.stream === true,
+  };
+  if (system.length) request.system = system;
+  if (typeof body.temperature === "number") request.temperature = body.temperature;
+  if (typeof body.top_p === "number") request.top_p = body.top_p;
+  if (body.stop) {
+    request.stop_sequences = Array.isArray(body.stop) ? body.stop : [body.stop];
+  }
+  const tools = (Array.isArray(body.tools) ? body.tools : [])
+    .filter((tool: any) => tool?.type === "function" && tool.function?.name)
+    .map((tool: any) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters || { type: "object", properties: {} },
+    }));
+  if (tools.length) request.tools = tools;
+  const toolChoice = convertToolChoice(body.tool_choice);
+  if (toolChoice && tools.length) request.tool_choice = toolChoice;
+  // The OpenAI `user` field doubles as the session id for usage tracking
+  request.metadata = { user_id: `openai_session_${body.user || sessionId}` };
+  return request;
+};
+
+const toUsage = (usage: any) => {
+  const promptTokens = usage?.input_tokens || 0;
+  const completionTokens = usage?.output_tokens || 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+};
+
+/**
+ * Convert a non-streaming Anthropic Messages response into a Chat Completions
+ * response.
+ */
+export const toChatCompletion = (message: any): any => {
+  const content = Array.isArray(message.content) ? message.content : [];
+  const text = content
+    .filter((block: any) => block.type === "text")
+    .map((block: any) => block.text)
+    .join("");
+  const reasoning = content
+    .filter((block: any) => block.type === "thinking")
+    .map((block: any) => block.thinking)
+    .join("");
+  const toolCalls = content
+    .filter((block: any) => block.type === "tool_use")
+    .map((block: any) => ({
+      id: block.id,
+      type: "function",
+      function: { name: block.name, arguments: JSON.stringify(block.input || {}) },
+    }));
+
+  return {
+    id: message.id,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: message.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: text || null,
+          ...(reasoning ? { reasoning_content: reasoning } : {}),
+          ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: toFinishReason(message.stop_reason),
+      },
+    ],
+    usage: toUsage(message.usage),
+  };
+};
+
+/**
+ * Turns parsed Anthropic SSE events into Chat Completions chunk events, ready
+ * for `SSESerializerTransform`.
+ */
+export class ChatCompletionStreamTransform extends TransformStream<any, any> {
+  private id = "";
+  private model = "";
+  private created = Math.floor(Date.now() / 1000);
+  private usage: any = {};
+  private toolIndex = -1;
+
+  constructor(includeUsage = false) {
+    super({
+      transform: (event, controller) => {
+        const data = event.data || {};
+        switch (data.type) {
+          case "message_start":
+            this.id = data.message?.id || "";
+            this.model = data.message?.model || "";
+            this.usage = { ...data.message?.usage };
+            controller.enqueue(this.chunk({ role: "assistant", content: "" }));
+            break;
+          case "content_block_start":
+            if (data.content_block?.type === "tool_use") {
+              this.toolIndex++;
+              controller.enqueue(
+                this.chunk({
+                  tool_calls: [
+                    {
+                      index: this.toolIndex,
+                      id: data.content_block.id,
+                      type: "function",
+                      function: { name: data.content_block.name, arguments: "" },
+                    },
+                  ],
+                })
+              );
+            }
+            break;
+          case "content_block_delta":
+            if (data.delta?.type === "text_delta") {
+              controller.enqueue(this.chunk({ content: data.delta.text }));
+            } else if (data.delta?.type === "thinking_delta") {
+              controller.enqueue(this.chunk({ reasoning_content: data.delta.thinking }));
+            } else if (data.delta?.type === "input_json_delta") {
+              controller.enqueue(
+                this.chunk({
+                  tool_calls: [
+                    {
+                      index: this.toolIndex,
+                      function: { arguments: data.delta.partial_json },
+                    },
+                  ],
+                })
+              );
+            }
+            break;
+          case "message_delta":
+            this.usage = { ...this.usage, ...data.usage };
+            controller.enqueue(
+              this.chunk({}, toFinishReason(data.delta?.stop_reason) || "stop")
+            );
+            break;
+          case "message_stop":
+            if (includeUsage) {
+              controller.enqueue({
+                data: { ...this.base(), choices: [], usage: toUsage(this.usage) },
+              });
+            }
+            controller.enqueue({ data: { type: "done" } });
+            break;
+          case "error":
+            controller.enqueue({ data: { error: data.error } });
+            controller.enqueue({ data: { type: "done" } });
+            break;
+        }
+      },
+    });
+  }
+
+  private base() {
+    return {
+      id: this.id,
+      object: "chat.completion.chunk",
+      created: this.created,
+      model: this.model,
+    };
+  }
+
+  private chunk(delta: any, finishReason: string | null = null) {
+    return {
+      data: {
+        ...this.base(),
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      },
+    };
+  }
+}
+
+/**
+ * Serve a Chat Completions request by converting it and re-sending it to this
+ * service's `/v1/messages` endpoint.
+ */
+export const handleChatCompletion = async (
+  req: any,
+  reply: any,
+  options: { port: number; apiKey?: string; traceparent?: string }
+) => {
+  const body = req.body || {};
+  if (!Array.isArray(body.messages)) {
+    return reply.status(400).send({
+      error: { message: "messages is required", type: "invalid_request_error" },
+    });
+  }
+
+  const response = await fetch(`http://127.0.0.1:${options.port}/v1/messages`, {
+    method: "POST",
+    headers: {
+      "x-api-key": options.apiKey || "",
+      "content-type": "application/json",
+      ...(options.traceparent ? { traceparent: options.traceparent } : {}),
+    },
+    body: JSON.stringify(toMessagesRequest(body)),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    let error: any;
+    try {
+      error = JSON.parse(text).error;
+    } catch {}
+    return reply.status(response.status).send({
+      error: {
+        message: error?.message || text,
+        type: error?.type || "api_error",
+        code: error?.code,
+      },
+    });
+  }
+
+  if (body.stream === true) {
+    const stream: ReadableStream = response.body!;
+    reply.header("content-type", "text/event-stream");
+    reply.header("cache-control", "no-cache");
+    reply.header("connection", "keep-alive");
+    return reply.send(
+      stream
+        .pipeThrough(new SSEParserTransform())
+        .pipeThrough(
+          new ChatCompletionStreamTransform(body.stream_options?.include_usage === true)
+        )
+        .pipeThrough(new SSESerializerTransform())
+    );
+  }
+  return reply.send(toChatCompletion(await response.json()));
+};
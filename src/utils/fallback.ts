@@ -0,0 +1,170 @@
+// Ordered fallback chains for Router scenarios
+import { fingerprint } from "./hash";
+import { providerHealthService } from "./providerHealth";
+
+export const FALLBACK_HEADER = "x-ccr-fallback";
+// Monitoring id of the request a failover hop continues
+export const REQUEST_ID_HEADER = "x-ccr-request-id";
+
+export interface SplitArm {
+  // Label of the arm in monitoring; defaults to its first candidate
+  name?: string;
+  model: string | string[];
+  weight: number;
+}
+
+/**
+ * A Router entry that splits traffic by weight across several targets.
+ */
+export interface SplitTarget {
+  split: SplitArm[];
+}
+
+export const isSplitTarget = (target: any): target is SplitTarget => {
+  return Array.isArray(target?.split);
+};
+
+const getSplitArms = (target: SplitTarget): SplitArm[] => {
+  return target.split.filter(
+    (arm) => arm && arm.weight > 0 && getRouteCandidates(arm.model).length
+  );
+};
+
+export const getSplitArmName = (arm: SplitArm): string => {
+  return arm.name || getRouteCandidates(arm.model)[0];
+};
+
+/**
+ * Pick the arm of a split target by weight. With a `key`, the same key
+ * always lands on the same arm while the weights stay the same.
+ */
+export const pickSplitArm = (
+  target: SplitTarget,
+  key?: string
+): SplitArm | undefined => {
+  const arms = getSplitArms(target);
+  const total = arms.reduce((sum, arm) => sum + arm.weight, 0);
+  if (!total) return undefined;
+  // 48 bits of the key hash, spread over [0, total)
+  const point = key
+    ? (parseInt(fingerprint(key), 16) / 2 ** 48) * total
+    : Math.random() * total;
+  let upper = 0;
+  return (
+    arms.find((arm) => {
+      upper += arm.weight;
+      return point < upper;
+    }) || arms[arms.length - 1]
+  );
+};
+
+/**
+ * Normalize a Router entry into an ordered list of `provider,model` candidates.
+ * A Router entry may be a single string, an array of strings, or a split
+ * target, whose arms contribute their candidates in order.
+ */
+export const getRouteCandidates = (target: any): string[] => {
+  if (isSplitTarget(target)) {
+    return Array.from(
+      new Set(getSplitArms(target).flatMap((arm) => getRouteCandidates(arm.model)))
+    );
+  }
+  if (Array.isArray(target)) {
+    return target.filter(
+      (item) => typeof item === "string" && item.trim() !== ""
+    );
+  }
+  if (typeof target === "string" && target.trim() !== "") {
+    return [target];
+  }
+  return [];
+};
+
+/**
+ * Returns the first candidate of a Router entry, or undefined if none is set.
+ */
+export const getPrimaryModel = (target: any): string | undefined => {
+  return getRouteCandidates(target)[0];
+};
+
+/**
+ * Upstream failures worth retrying on the next candidate: 5xx, 429 and
+ * network errors (which carry no status code).
+ */
+export const isRetryableStatus = (status?: number): boolean => {
+  if (!status) return true;
+  return status === 429 || status >= 500;
+};
+
+export const isRetryableError = (error: any): boolean => {
+  return isRetryableStatus(error?.statusCode);
+};
+
+/**
+ * Whether the request still has a candidate left to fail over to.
+ */
+export const hasNextCandidate = (req: any): boolean => {
+  const candidates: string[] = req.routeCandidates || [];
+  return (req.routeAttempt || 0) + 1 < candidates.length;
+};
+
+export interface FallbackResult {
+  response: Response;
+  model: string;
+}
+
+/**
+ * Re-send the routed request body to this service with the next candidate
+ * model, walking the chain until a candidate answers with a non-retryable
+ * status. `onHop` is called for every candidate that failed.
+ */
+export const sendToNextCandidate = async (
+  req: any,
+  options: {
+    port: number;
+    apiKey?: string;
+    // Continues the trace of the original request
+    traceparent?: string;
+    // Monitoring id of the original request
+    requestId?: string;
+    onHop: (model: string, status?: number, error?: string) => void;
+  }
+): Promise<FallbackResult | undefined> => {
+  const candidates: string[] = req.routeCandidates || [];
+  let result: FallbackResult | undefined;
+
+  while (hasNextCandidate(req)) {
+    req.routeAttempt = (req.routeAttempt || 0) + 1;
+    const model = candidates[req.routeAttempt];
+    const provider = model.split(",")[0];
+    if (!providerHealthService.isAvailable(provider)) {
+      options.onHop(model, undefined, "circuit open");
+      continue;
+    }
+    providerHealthService.acquire(provider);
+    try {
+      const response = await fetch(
+        `http://127.0.0.1:${options.port}/v1/messages`,
+        {
+          method: "POST",
+          headers: {
+            "x-api-key": options.apiKey || "",
+            "content-type": "application/json",
+            [FALLBACK_HEADER]: "true",
+            ...(options.traceparent ? { traceparent: options.traceparent } : {}),
+            ...(options.requestId ? { [REQUEST_ID_HEADER]: options.requestId } : {}),
+          },
+          body: JSON.stringify({ ...req.body, model }),
+        }
+      );
+      result = { response, model };
+      if (response.ok || !isRetryableStatus(response.status)) {
+        return result;
+      }
+      options.onHop(model, response.status, await response.clone().text());
+    } catch (error: any) {
+      options.onHop(model, undefined, error.message);
+    }
+  }
+  return result;
+};
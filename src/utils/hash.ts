@@ -0,0 +1,30 @@
+import { createHash } from 'crypto';
+
+/**
+ * JSON serialization with sorted object keys, so equal values always
+ * produce the same string.
+ */
+export const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const hashValue = (value: any): string => {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+};
+
+/**
+ * Short, non-reversible identifier for a secret such as an API key.
+ */
+export const fingerprint = (secret: string): string => {
+  return createHash('sha256').update(secret).digest('hex').slice(0, 12);
+};
@@ -0,0 +1,210 @@
+// Hedged requests: the same streamed request is sent to two models and the
+// one that starts its answer first is streamed to the client.
+import { ResponseAssembler } from "./capture";
+import { getRouteCandidates } from "./fallback";
+import { providerHealthService } from "./providerHealth";
+import { SSEParserTransform } from "./SSEParser.transform";
+
+// Marks a leg of a hedged request; its value is the id of the hedged request
+export const HEDGE_HEADER = "x-ccr-hedge";
+
+export interface HedgeConfig {
+  // The two `provider,model` to race
+  models?: string[];
+  // Router scenarios to hedge; `default` when unset
+  scenarios?: string[];
+}
+
+export interface HedgeLeg {
+  model: string;
+  outcome: "won" | "lost" | "failed";
+  // Milliseconds until the first content block
+  firstBlockMs?: number;
+  status?: number;
+  error?: string;
+  // Usage the leg reported before it was aborted; the winner's usage is the request's
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  cost?: number;
+}
+
+export interface HedgeResult {
+  legs: HedgeLeg[];
+  // Unset when every leg failed
+  winner?: {
+    model: string;
+    response: Response;
+    stream: ReadableStream<Uint8Array>;
+  };
+}
+
+const DEFAULT_SCENARIOS = ["default"];
+
+/**
+ * Follow the connection of a hedge leg, so a leg the hedged request aborted
+ * once the race was decided is told apart from a failed one.
+ */
+export const watchLeg = (req: any, reply: any): void => {
+  const controller = new AbortController();
+  reply.raw.once("close", () => {
+    if (!reply.raw.writableFinished) controller.abort();
+  });
+  req.hedgeSignal = controller.signal;
+};
+
+/**
+ * Whether the request is a hedge leg that lost the race and was aborted. Its
+ * error says nothing about the provider and it has no client to answer.
+ */
+export const isCancelledLeg = (req: any): boolean => {
+  return !!req.headers[HEDGE_HEADER] && !!req.hedgeSignal?.aborted;
+};
+
+/**
+ * The models to race for a routed request, or none when it is not hedged.
+ * Only streamed requests are hedged, and never background requests or
+ * requests over a soft budget limit, as hedging pays for two answers.
+ */
+export const getHedgeModels = (req: any, config: any): string[] => {
+  const hedge: HedgeConfig | undefined = config.Router?.hedge;
+  if (!hedge || req.body?.stream !== true || req.budgetDowngrade?.length) {
+    return [];
+  }
+  const scenarios = hedge.scenarios?.length ? hedge.scenarios : DEFAULT_SCENARIOS;
+  if (req.routeScenario === "background" || !scenarios.includes(req.routeScenario)) {
+    return [];
+  }
+  const models = getRouteCandidates(hedge.models)
+    .filter((model) => providerHealthService.isAvailable(model.split(",")[0]))
+    .slice(0, 2);
+  return models.length === 2 ? models : [];
+};
+
+interface RunningLeg {
+  leg: HedgeLeg;
+  controller: AbortController;
+  assembler: ResponseAssembler;
+  response?: Response;
+  // The response body from its first byte, streamed to the client if the leg wins
+  stream?: ReadableStream<Uint8Array>;
+}
+
+const toUsage = (leg: HedgeLeg, usage: Record<string, any> = {}) => {
+  leg.inputTokens = usage.input_tokens;
+  leg.outputTokens = usage.output_tokens;
+  leg.cacheReadTokens = usage.cache_read_input_tokens;
+  leg.cacheWriteTokens = usage.cache_creation_input_tokens;
+};
+
+/**
+ * Read a leg until it emits its first content block, or its stream ends.
+ * Resolves with the leg once it is ready to be streamed, and rejects when it
+ * failed before that.
+ */
+const startLeg = async (
+  running: RunningLeg,
+  body: any,
+  startedAt: number,
+  options: { port: number; apiKey?: string; traceparent?: string; requestId?: string }
+): Promise<RunningLeg> => {
+  const { leg } = running;
+  const provider = leg.model.split(",")[0];
+  providerHealthService.acquire(provider);
+  const response = await fetch(`http://127.0.0.1:${options.port}/v1/messages`, {
+    method: "POST",
+    headers: {
+      "x-api-key": options.apiKey || "",
+      "content-type": "application/json",
+      [HEDGE_HEADER]: options.requestId || "true",
+      ...(options.traceparent ? { traceparent: options.traceparent } : {}),
+    },
+    body: JSON.stringify({ ...body, model: leg.model }),
+    signal: running.controller.signal,
+  });
+  running.response = response;
+  leg.status = response.status;
+  if (!response.ok || !response.body) {
+    throw new Error(`${response.status}: ${(await response.text()).slice(0, 500)}`);
+  }
+
+  // Events may be split across chunks, so a copy of the body is parsed into
+  // whole events to find the first content block
+  const [stream, events]: ReadableStream[] = response.body.tee();
+  running.stream = stream;
+  const reader = events.pipeThrough(new SSEParserTransform()).getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      running.assembler.push(value.data);
+      if (value.event === "content_block_start") break;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  leg.firstBlockMs = Date.now() - startedAt;
+  return running;
+};
+
+/**
+ * Race the routed body on `models` through this service. The first leg to
+ * emit a content block wins and the other is aborted. `legs` holds the
+ * outcome of both, with the usage the loser reported before it was aborted.
+ */
+export const raceModels = async (
+  body: any,
+  models: string[],
+  options: {
+    port: number;
+    apiKey?: string;
+    // Continues the trace of the original request
+    traceparent?: string;
+    // Monitoring id of the original request
+    requestId?: string;
+  }
+): Promise<HedgeResult> => {
+  const startedAt = Date.now();
+  const legs: RunningLeg[] = models.map((model) => ({
+    leg: { model, outcome: "lost" },
+    controller: new AbortController(),
+    assembler: new ResponseAssembler(),
+  }));
+
+  let winner: RunningLeg | undefined;
+  try {
+    winner = await Promise.any(
+      legs.map((running) =>
+        startLeg(running, body, startedAt, options).catch((error: any) => {
+          // The loser is aborted once the race is decided
+          if (!running.controller.signal.aborted) {
+            running.leg.outcome = "failed";
+            running.leg.error = error.message;
+          }
+          throw error;
+        })
+      )
+    );
+  } catch {
+    // Every leg failed; the request goes the usual way
+  }
+
+  legs.forEach((running) => {
+    if (running === winner) {
+      running.leg.outcome = "won";
+      return;
+    }
+    if (running.leg.outcome === "lost") {
+      running.controller.abort();
+    }
+    toUsage(running.leg, running.assembler.result().usage);
+  });
+  const result = legs.map((running) => running.leg);
+  if (!winner) return { legs: result };
+
+  return {
+    legs: result,
+    winner: { model: winner.leg.model, response: winner.response!, stream: winner.stream! },
+  };
+};
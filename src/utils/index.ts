@@ -9,6 +9,7 @@ import {
   PLUGINS_DIR,
 } from "../constants";
 import { cleanupLogFiles } from "./logCleanup";
+import { resolveSecrets } from "./secrets";
 
 // Function to interpolate environment variables in config values
 const interpolateEnvVars = (obj: any): any => {
@@ -72,8 +73,8 @@ export const readConfigFile = async () => {
     try {
       // Try to parse with JSON5 first (which also supports standard JSON)
       const parsedConfig = JSON5.parse(config);
-      // Interpolate environment variables in the parsed config
-      return interpolateEnvVars(parsedConfig);
+      // Interpolate environment variables and `secret:NAME` references in the parsed config
+      return resolveSecrets(interpolateEnvVars(parsedConfig));
     } catch (parseError) {
       console.error(`Failed to parse config file at ${CONFIG_FILE}`);
       console.error("Error details:", (parseError as Error).message);
@@ -123,6 +124,14 @@ export const readConfigFile = async () => {
   }
 };
 
+/**
+ * The config file as written, without environment variables or secrets
+ * filled in.
+ */
+export const readRawConfigFile = async () => {
+  return JSON5.parse(await fs.readFile(CONFIG_FILE, "utf-8"));
+};
+
 export const backupConfigFile = async () => {
   try {
     if (await fs.access(CONFIG_FILE).then(() => true).catch(() => false)) {
@@ -0,0 +1,303 @@
+// Built-in `mock` provider type. Providers declared with `"type": "mock"` are
+// answered in-process with scripted Anthropic Messages responses, so routing,
+// transformers, agents and monitoring can be exercised without network access.
+import { getLastUserMessageText, testPattern } from "./routingRules";
+import { SSESerializerTransform } from "./SSESerializer.transform";
+import { FetchHandler, getRequestUrl, upstreamFetch } from "./upstreamFetch";
+
+// Requests to this origin never leave the process
+export const MOCK_BASE_URL = "http://mock.ccr.local";
+
+export interface MockResponseMatch {
+  // Exact model name the request must use
+  model?: string;
+  // Regex tested against the text of the last user message
+  lastUserMessage?: string;
+  // Whether the last message must (true) or must not (false) carry tool results
+  toolResult?: boolean;
+}
+
+export interface MockToolUse {
+  name: string;
+  input?: any;
+  id?: string;
+}
+
+export interface MockError {
+  status: number;
+  message?: string;
+  type?: string;
+  // Seconds, sent as the `retry-after` header
+  retryAfter?: number;
+}
+
+export interface MockResponse {
+  when?: MockResponseMatch;
+  text?: string;
+  thinking?: string;
+  toolUse?: MockToolUse | MockToolUse[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+  error?: MockError;
+  // Streams are cut off after this many SSE events
+  disconnectAfter?: number;
+  latencyMs?: number;
+  // Serve this response at most this many times, then fall through
+  times?: number;
+}
+
+export interface MockProviderConfig {
+  responses?: MockResponse[];
+  // Delay before the response starts
+  latencyMs?: number;
+  // Delay between SSE events of streamed responses
+  chunkDelayMs?: number;
+}
+
+const ERROR_TYPES: Record<number, string> = {
+  400: "invalid_request_error",
+  401: "authentication_error",
+  403: "permission_error",
+  404: "not_found_error",
+  413: "request_too_large",
+  429: "rate_limit_error",
+  529: "overloaded_error",
+};
+
+const sleep = (ms?: number) =>
+  ms && ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+
+const estimateTokens = (value: any): number => {
+  const text = typeof value === "string" ? value : JSON.stringify(value ?? "");
+  return Math.max(1, Math.ceil(text.length / 4));
+};
+
+const hasToolResult = (body: any): boolean => {
+  const messages = Array.isArray(body?.messages) ? body.messages : [];
+  const last = messages[messages.length - 1];
+  return (
+    last?.role === "user" &&
+    Array.isArray(last.content) &&
+    last.content.some((part: any) => part?.type === "tool_result")
+  );
+};
+
+class MockProviderService {
+  private providers: Map<string, MockProviderConfig> = new Map();
+  // Times each scripted response was served, keyed by `provider#index`
+  private served: Map<string, number> = new Map();
+  private messageCount = 0;
+
+  /**
+   * Register the mock providers in `Providers` and fill in the connection
+   * settings llms requires. Returns the provider list to hand to the server.
+   */
+  configure(providers: any[] = []): any[] {
+    this.providers.clear();
+    this.served.clear();
+    const configured = providers.map((provider: any) => {
+      if (provider?.type !== "mock") return provider;
+      this.providers.set(provider.name, provider.mock || {});
+      return {
+        ...provider,
+        api_base_url: `${MOCK_BASE_URL}/${encodeURIComponent(provider.name)}/v1/messages`,
+        api_key: provider.api_key || "mock",
+        transformer: provider.transformer || { use: ["Anthropic"] },
+      };
+    });
+    if (this.providers.size) {
+      upstreamFetch.use("mock", (input, init, next) => this.intercept(input, init, next));
+    }
+    return configured;
+  }
+
+  private intercept(input: any, init: any, next: FetchHandler): Promise<Response> {
+    const url = getRequestUrl(input);
+    if (!url || !url.startsWith(`${MOCK_BASE_URL}/`)) {
+      return next(input, init);
+    }
+    const name = decodeURIComponent(new URL(url).pathname.split("/")[1] || "");
+    let body: any = {};
+    try {
+      body = JSON.parse(init?.body || "{}");
+    } catch {}
+    return this.handle(name, body);
+  }
+
+  private selectResponse(name: string, config: MockProviderConfig, body: any): MockResponse | undefined {
+    const responses = Array.isArray(config.responses) ? config.responses : [];
+    for (let i = 0; i < responses.length; i++) {
+      const response = responses[i];
+      const when = response.when || {};
+      if (when.model && when.model !== body.model) continue;
+      if (when.lastUserMessage && !testPattern(when.lastUserMessage, getLastUserMessageText(body))) continue;
+      if (typeof when.toolResult === "boolean" && when.toolResult !== hasToolResult(body)) continue;
+      const key = `${name}#${i}`;
+      const served = this.served.get(key) || 0;
+      if (typeof response.times === "number" && served >= response.times) continue;
+      this.served.set(key, served + 1);
+      return response;
+    }
+    return undefined;
+  }
+
+  private async handle(name: string, body: any): Promise<Response> {
+    const config = this.providers.get(name);
+    if (!config) {
+      return this.errorResponse({ status: 404, message: `Unknown mock provider '${name}'` });
+    }
+    const response: MockResponse = this.selectResponse(name, config, body) || {
+      text: `Mock response from ${name},${body.model}: ${getLastUserMessageText(body) || "(no text)"}`,
+    };
+
+    await sleep(response.latencyMs ?? config.latencyMs);
+    if (response.error) {
+      return this.errorResponse(response.error);
+    }
+
+    const message = this.buildMessage(body, response);
+    if (body.stream !== true) {
+      return new Response(JSON.stringify(message), {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      });
+    }
+    return new Response(this.buildStream(message, response, config.chunkDelayMs), {
+      status: 200,
+      headers: { "content-type": "text/event-stream", "cache-control": "no-cache" },
+    });
+  }
+
+  private errorResponse(error: MockError): Response {
+    const headers: Record<string, string> = { "content-type": "application/json" };
+    if (typeof error.retryAfter === "number") {
+      headers["retry-after"] = String(error.retryAfter);
+    }
+    return new Response(
+      JSON.stringify({
+        type: "error",
+        error: {
+          type: error.type || ERROR_TYPES[error.status] || "api_error",
+          message: error.message || `Mock provider error ${error.status}`,
+        },
+      }),
+      { status: error.status, headers }
+    );
+  }
+
+  private buildMessage(body: any, response: MockResponse): any {
+    const content: any[] = [];
+    if (response.thinking) {
+      content.push({ type: "thinking", thinking: response.thinking, signature: "mock" });
+    }
+    if (response.text) {
+      content.push({ type: "text", text: response.text });
+    }
+    const toolUses = response.toolUse
+      ? Array.isArray(response.toolUse) ? response.toolUse : [response.toolUse]
+      : [];
+    toolUses.forEach((toolUse, index) => {
+      content.push({
+        type: "tool_use",
+        id: toolUse.id || `toolu_mock_${Date.now()}_${index}`,
+        name: toolUse.name,
+        input: toolUse.input || {},
+      });
+    });
+
+    return {
+      id: `msg_mock_${Date.now()}_${++this.messageCount}`,
+      type: "message",
+      role: "assistant",
+      model: body.model,
+      content,
+      stop_reason: toolUses.length ? "tool_use" : "end_turn",
+      stop_sequence: null,
+      usage: {
+        input_tokens: response.usage?.input_tokens ?? estimateTokens(body.messages),
+        output_tokens: response.usage?.output_tokens ?? estimateTokens(content),
+      },
+    };
+  }
+
+  private buildStream(message: any, response: MockResponse, chunkDelayMs?: number): ReadableStream {
+    const events: any[] = [
+      {
+        event: "message_start",
+        data: {
+          type: "message_start",
+          message: {
+            ...message,
+            content: [],
+            stop_reason: null,
+            usage: { input_tokens: message.usage.input_tokens, output_tokens: 0 },
+          },
+        },
+      },
+    ];
+    message.content.forEach((block: any, index: number) => {
+      const start =
+        block.type === "tool_use"
+          ? { ...block, input: {} }
+          : block.type === "thinking"
+          ? { type: "thinking", thinking: "" }
+          : { type: "text", text: "" };
+      events.push({
+        event: "content_block_start",
+        data: { type: "content_block_start", index, content_block: start },
+      });
+      const deltas =
+        block.type === "tool_use"
+          ? [{ type: "input_json_delta", partial_json: JSON.stringify(block.input) }]
+          : block.type === "thinking"
+          ? [
+              ...block.thinking.split(/(?<=\s)/).map((thinking: string) => ({ type: "thinking_delta", thinking })),
+              { type: "signature_delta", signature: block.signature },
+            ]
+          : block.text.split(/(?<=\s)/).map((text: string) => ({ type: "text_delta", text }));
+      deltas.forEach((delta: any) => {
+        events.push({
+          event: "content_block_delta",
+          data: { type: "content_block_delta", index, delta },
+        });
+      });
+      events.push({
+        event: "content_block_stop",
+        data: { type: "content_block_stop", index },
+      });
+    });
+    events.push(
+      {
+        event: "message_delta",
+        data: {
+          type: "message_delta",
+          delta: { stop_reason: message.stop_reason, stop_sequence: null },
+          usage: message.usage,
+        },
+      },
+      { event: "message_stop", data: { type: "message_stop" } }
+    );
+
+    let sent = 0;
+    return new ReadableStream({
+      async pull(controller) {
+        if (typeof response.disconnectAfter === "number" && sent >= response.disconnectAfter) {
+          controller.error(new Error("Mock provider disconnected mid-stream"));
+          return;
+        }
+        if (sent >= events.length) {
+          controller.close();
+          return;
+        }
+        if (sent > 0) {
+          await sleep(chunkDelayMs);
+        }
+        controller.enqueue(events[sent++]);
+      },
+    })
+      .pipeThrough(new SSESerializerTransform())
+      .pipeThrough(new TextEncoderStream());
+  }
+}
+
+// Export singleton instance
+export const mockProviderService = new MockProviderService();
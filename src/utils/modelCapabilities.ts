@@ -0,0 +1,137 @@
+// Per-model capability registry from `ModelCapabilities`
+import { get_encoding, Tiktoken, TiktokenEncoding } from "tiktoken";
+
+export interface ModelCapabilities {
+  // Maximum number of input tokens the model accepts
+  contextWindow?: number;
+  // Maximum number of tokens the model can generate
+  maxOutput?: number;
+  // tiktoken encoding used to estimate the token count
+  tokenizer?: TiktokenEncoding;
+}
+
+export const DEFAULT_TOKENIZER: TiktokenEncoding = "cl100k_base";
+
+const TOKENIZERS: TiktokenEncoding[] = [
+  "gpt2",
+  "r50k_base",
+  "p50k_base",
+  "p50k_edit",
+  "cl100k_base",
+  "o200k_base",
+];
+
+const encoders: Map<TiktokenEncoding, Tiktoken> = new Map();
+
+/**
+ * Returns a cached encoder for the tokenizer. Unknown names fall back to
+ * `cl100k_base`.
+ */
+export const getEncoder = (tokenizer?: string): Tiktoken => {
+  const name = TOKENIZERS.includes(tokenizer as TiktokenEncoding)
+    ? (tokenizer as TiktokenEncoding)
+    : DEFAULT_TOKENIZER;
+  let encoder = encoders.get(name);
+  if (!encoder) {
+    encoder = get_encoding(name);
+    encoders.set(name, encoder);
+  }
+  return encoder;
+};
+
+/**
+ * Look up a per-model entry in a registry keyed by `provider,model` or by the
+ * bare model name; the former wins. Keys are matched case-insensitively.
+ */
+export const findModelEntry = <T>(
+  registry: Record<string, T> | undefined,
+  model?: string
+): T | undefined => {
+  if (!model || !registry || typeof registry !== "object") return undefined;
+
+  const lookup = (key: string) => {
+    const match = Object.keys(registry).find(
+      (name) => name.toLowerCase() === key.toLowerCase()
+    );
+    return match ? registry[match] : undefined;
+  };
+  const [provider, ...rest] = model.split(",");
+  if (rest.length) {
+    return lookup(`${provider},${rest.join(",")}`) || lookup(rest.join(","));
+  }
+  return lookup(model);
+};
+
+/**
+ * Look up the capabilities of a routed model.
+ */
+export const getModelCapabilities = (
+  config: any,
+  model?: string
+): ModelCapabilities | undefined => {
+  return findModelEntry<ModelCapabilities>(config?.ModelCapabilities, model);
+};
+
+/**
+ * Resolve a `ModelAliases` entry such as
+ * `"sonnet": "openrouter,anthropic/claude-sonnet-4"` to its `provider,model`.
+ */
+export const resolveModelAlias = (config: any, model?: string): string | undefined => {
+  const aliases = config?.ModelAliases;
+  if (!model || !aliases || typeof aliases !== "object") return undefined;
+  const target = Object.prototype.hasOwnProperty.call(aliases, model) ? aliases[model] : undefined;
+  return typeof target === "string" && target.includes(",") ? target : undefined;
+};
+
+/**
+ * Model list for `GET /v1/models`, in a shape both Anthropic and OpenAI
+ * clients accept: every configured `provider,model` pair followed by the
+ * `ModelAliases`.
+ */
+export const listModels = (config: any) => {
+  const createdAt = new Date(0).toISOString();
+  const data: any[] = [];
+
+  for (const provider of config?.Providers || []) {
+    for (const model of provider.models || []) {
+      const id = `${provider.name},${model}`;
+      const capabilities = getModelCapabilities(config, id);
+      data.push({
+        id,
+        type: "model",
+        object: "model",
+        display_name: `${model} (${provider.name})`,
+        created_at: createdAt,
+        created: 0,
+        owned_by: provider.name,
+        context_window: capabilities?.contextWindow,
+        max_output: capabilities?.maxOutput,
+      });
+    }
+  }
+  for (const alias of Object.keys(config?.ModelAliases || {})) {
+    const target = resolveModelAlias(config, alias);
+    if (!target) continue;
+    const capabilities = getModelCapabilities(config, target);
+    data.push({
+      id: alias,
+      type: "model",
+      object: "model",
+      display_name: alias,
+      created_at: createdAt,
+      created: 0,
+      owned_by: target.split(",")[0],
+      alias_for: target,
+      context_window: capabilities?.contextWindow,
+      max_output: capabilities?.maxOutput,
+    });
+  }
+
+  return {
+    object: "list",
+    data,
+    has_more: false,
+    first_id: data[0]?.id ?? null,
+    last_id: data[data.length - 1]?.id ?? null,
+  };
+};
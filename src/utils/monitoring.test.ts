@@ -0,0 +1,81 @@
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+const paths = vi.hoisted(() => ({ home: '' }));
+
+// Request logs and metrics are written to a temporary directory instead of the user's home
+vi.mock('../constants', async () => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  paths.home = mkdtempSync(join(tmpdir(), 'ccr-monitoring-'));
+  return { HOME_DIR: paths.home };
+});
+
+import { getSessionId, monitoringService } from './monitoring';
+import { requestStore } from './requestStore';
+
+const start = (body: Record<string, any>) =>
+  monitoringService.startRequest({ method: 'POST', url: '/v1/messages', headers: {}, body });
+
+afterAll(() => {
+  rmSync(paths.home, { recursive: true, force: true });
+});
+
+describe('getSessionId', () => {
+  it('reads the session from metadata.user_id', () => {
+    expect(getSessionId({ metadata: { user_id: 'user_abc_account__session_s1' } })).toBe('s1');
+    expect(getSessionId({ metadata: { user_id: 'user_abc' } })).toBeUndefined();
+    expect(getSessionId({ metadata: { user_id: 42 } })).toBeUndefined();
+    expect(getSessionId(undefined)).toBeUndefined();
+  });
+});
+
+describe('monitoringService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records the session of a request before it is routed', () => {
+    const requestId = start({ model: 'claude', metadata: { user_id: 'u_session_s1' } });
+    const other = start({ model: 'claude' });
+    expect(monitoringService.getRequest(requestId)?.sessionId).toBe('s1');
+    expect(monitoringService.getRequest(other)?.sessionId).toBe('default');
+
+    monitoringService.endRequest(requestId);
+    monitoringService.endRequest(other);
+    const page = requestStore.query({ sessionId: 's1' });
+    expect(page.total).toBe(1);
+    expect(page.requests[0].id).toBe(requestId);
+    expect(monitoringService.getSessionMetrics('s1')?.requestCount).toBe(1);
+  });
+
+  it('keeps the streaming latency of each session apart', () => {
+    vi.useFakeTimers();
+    const stream = (session: string, ttftMs: number, generationMs: number) => {
+      const requestId = start({ model: 'claude', metadata: { user_id: `u_session_${session}` } });
+      monitoringService.updateRequest(requestId, { provider: 'p', model: 'm' });
+      vi.advanceTimersByTime(ttftMs);
+      monitoringService.recordFirstToken(requestId);
+      vi.advanceTimersByTime(generationMs);
+      monitoringService.updateRequest(requestId, { outputTokens: 100 });
+      monitoringService.endRequest(requestId);
+    };
+    stream('fast', 100, 1000);
+    stream('slow', 2000, 4000);
+
+    expect(monitoringService.getSessionMetrics('fast')?.latencyByModel.m).toEqual({
+      samples: 1,
+      ttftP50: 100,
+      ttftP95: 100,
+      tokensPerSecondP50: 100,
+      tokensPerSecondP95: 100
+    });
+    expect(monitoringService.getSessionMetrics('slow')?.latencyByModel.m).toMatchObject({
+      samples: 1,
+      ttftP50: 2000,
+      tokensPerSecondP50: 25
+    });
+    expect(monitoringService.getSessionMetrics('default')?.latencyByModel.m).toBeUndefined();
+  });
+});
@@ -2,23 +2,86 @@ import { EventEmitter } from 'events';
 import { writeFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { HOME_DIR } from '../constants';
+import type { RequestCapture } from './capture';
+import { fingerprint } from './hash';
+import type { HedgeLeg } from './hedge';
+import { calculateCost, getModelPricing, ModelPricing } from './pricing';
+import { requestStore } from './requestStore';
+import type { RetryAttempt } from './retry';
+import type { ShadowResult } from './shadow';
+
+export interface RouteInfo {
+  scenario: string;
+  candidates: string[];
+  // Arm of a split target the session is assigned to
+  arm?: string;
+}
+
+export interface FallbackHop {
+  model: string;
+  status?: number;
+  error?: string;
+  timestamp: Date;
+}
 
 export interface RequestLog {
   id: string;
   timestamp: Date;
   sessionId: string;
+  // The `ccr start` session that served the request
+  routerSessionId?: string;
+  // Fingerprint of the client API key
+  apiKeyId?: string;
+  // Fingerprint of the upstream key, for providers with several keys
+  providerKeyId?: string;
+  // OpenTelemetry trace id, when tracing is enabled
+  traceId?: string;
   method: string;
   path: string;
   provider?: string;
   model?: string;
   inputTokens?: number;
   outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  // USD, from the `Pricing` entry of the model; unset when the model has no price
+  cost?: number;
+  // Estimate returned by /v1/messages/count_tokens; not billed, so kept out of the token totals
+  countedTokens?: number;
   duration?: number;
+  // Milliseconds until the first content delta of a streamed response
+  timeToFirstToken?: number;
+  // Output tokens per second after the first token, for streamed responses
+  tokensPerSecond?: number;
+  // Requests ahead in the `RateLimits` queue when this one was queued
+  queueDepth?: number;
+  // Milliseconds spent in the `RateLimits` queue, over all failover hops
+  queueWaitMs?: number;
   status: 'pending' | 'success' | 'error';
   error?: string;
+  routing?: RouteInfo;
+  fallbacks?: FallbackHop[];
+  // Upstream attempts that were retried, over all failover hops
+  retries?: RetryAttempt[];
+  cache?: 'hit' | 'miss';
+  // Bodies captured when `Capture` is enabled
+  capture?: RequestCapture;
+  // Outcome of the copy mirrored to the `Shadow` model
+  shadow?: ShadowResult;
+  // Both legs of a hedged request; the cost of the aborted leg is part of `cost`
+  hedge?: HedgeLeg[];
   metadata?: Record<string, any>;
 }
 
+export interface ModelLatency {
+  // Streamed requests the percentiles are computed from
+  samples: number;
+  ttftP50?: number;
+  ttftP95?: number;
+  tokensPerSecondP50?: number;
+  tokensPerSecondP95?: number;
+}
+
 export interface SessionMetrics {
   sessionId: string;
   startTime: Date;
@@ -27,15 +90,82 @@ export interface SessionMetrics {
   totalOutputTokens: number;
   averageResponseTime: number;
   errors: number;
+  cacheHits: number;
+  cacheMisses: number;
+  totalCost: number;
+  costByProvider: Record<string, number>;
+  costByModel: Record<string, number>;
+  latencyByModel: Record<string, ModelLatency>;
   providers: Record<string, number>;
   models: Record<string, number>;
 }
 
+export interface CostPeriod {
+  // `YYYY-MM-DD` for days, `YYYY-MM` for months
+  period: string;
+  cost: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  providers: Record<string, number>;
+  models: Record<string, number>;
+}
+
+export interface CostSummary {
+  currency: 'USD';
+  totalCost: number;
+  daily: CostPeriod[];
+  monthly: CostPeriod[];
+}
+
+export interface SplitArmSummary {
+  scenario: string;
+  arm: string;
+  requests: number;
+  errors: number;
+  successRate: number;
+  averageDuration: number;
+  durationP95?: number;
+  ttftP50?: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+interface LatencySamples {
+  ttft: number[];
+  tokensPerSecond: number[];
+}
+
+// Percentiles are computed over the most recent samples of each model
+const MAX_LATENCY_SAMPLES = 500;
+
+/**
+ * Claude Code session id of a Messages request, from its `metadata.user_id`
+ * of the form `..._session_<id>`.
+ */
+export const getSessionId = (body: any): string | undefined => {
+  const userId = body?.metadata?.user_id;
+  if (typeof userId !== 'string') return undefined;
+  const parts = userId.split('_session_');
+  return parts.length > 1 ? parts[1] : undefined;
+};
+
+const percentile = (values: number[], p: number): number | undefined => {
+  if (!values.length) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+};
+
 class MonitoringService extends EventEmitter {
   private requests: Map<string, RequestLog> = new Map();
   private sessionMetrics: Map<string, SessionMetrics> = new Map();
   private maxLogsInMemory = 1000;
   private logsDir: string;
+  private pricing: Record<string, ModelPricing> = {};
+  private routerSessionId?: string;
+  // Keyed by `sessionId` and then model
+  private latencySamples: Map<string, Map<string, LatencySamples>> = new Map();
 
   constructor() {
     super();
@@ -44,6 +174,11 @@ class MonitoringService extends EventEmitter {
     this.loadPersistedMetrics();
   }
 
+  configure(config: any = {}): void {
+    this.pricing = config.Pricing || {};
+    this.routerSessionId = config.CCR_SESSION_ID;
+  }
+
   private ensureLogsDirectory(): void {
     if (!existsSync(this.logsDir)) {
       mkdirSync(this.logsDir, { recursive: true });
@@ -88,12 +223,16 @@ class MonitoringService extends EventEmitter {
 
   startRequest(req: any): string {
     const requestId = this.generateRequestId();
-    const sessionId = req.sessionId || 'default';
+    // Routing sets `req.sessionId` only after the request is started
+    const sessionId = req.sessionId || getSessionId(req.body) || 'default';
 
     const requestLog: RequestLog = {
       id: requestId,
       timestamp: new Date(),
       sessionId,
+      routerSessionId: this.routerSessionId,
+      apiKeyId: this.getApiKeyId(req.headers),
+      traceId: req.traceSpan?.traceId,
       method: req.method,
       path: req.url,
       status: 'pending',
@@ -119,11 +258,17 @@ class MonitoringService extends EventEmitter {
   updateRequest(requestId: string, updates: Partial<RequestLog>): void {
     const request = this.requests.get(requestId);
     if (request) {
+      const previousCost = request.cost || 0;
+      const completing = request.status === 'pending' && !!updates.status && updates.status !== 'pending';
       Object.assign(request, updates);
+      this.updateCost(request);
+      if (completing) {
+        this.recordLatency(request);
+      }
 
       // Update session metrics
       if (request.sessionId) {
-        this.updateSessionMetrics(request);
+        this.updateSessionMetrics(request, (request.cost || 0) - previousCost);
       }
 
       // Emit event for real-time monitoring
@@ -162,6 +307,17 @@ class MonitoringService extends EventEmitter {
       if (response?.body?.usage) {
         updates.inputTokens = response.body.usage.input_tokens;
         updates.outputTokens = response.body.usage.output_tokens;
+        updates.cacheReadTokens = response.body.usage.cache_read_input_tokens;
+        updates.cacheWriteTokens = response.body.usage.cache_creation_input_tokens;
+      }
+
+      // Generation speed excludes the wait for the first token
+      const outputTokens = updates.outputTokens ?? request.outputTokens;
+      if (!error && request.timeToFirstToken !== undefined && outputTokens) {
+        const generationTime = duration - request.timeToFirstToken;
+        if (generationTime > 0) {
+          updates.tokensPerSecond = outputTokens / (generationTime / 1000);
+        }
       }
 
       this.updateRequest(requestId, updates);
@@ -171,23 +327,185 @@ class MonitoringService extends EventEmitter {
     }
   }
 
-  private updateSessionMetrics(request: RequestLog): void {
-    let metrics = this.sessionMetrics.get(request.sessionId);
+  /**
+   * Mark the arrival of the first content delta of a streamed response.
+   */
+  recordFirstToken(requestId: string): void {
+    const request = this.requests.get(requestId);
+    if (request && request.timeToFirstToken === undefined) {
+      request.timeToFirstToken = Date.now() - request.timestamp.getTime();
+
+      // Emit event for real-time monitoring
+      this.emit('request:update', request);
+    }
+  }
+
+  recordQueue(requestId: string, queue: { depth: number; waitMs?: number }): void {
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.queueDepth = queue.depth;
+      if (queue.waitMs !== undefined) {
+        request.queueWaitMs = (request.queueWaitMs || 0) + queue.waitMs;
+      }
+
+      // Emit event for real-time monitoring
+      this.emit('request:update', request);
+    }
+  }
+
+  recordCapture(requestId: string, capture: RequestCapture): void {
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.capture = { ...request.capture, ...capture };
+
+      // Emit event for real-time monitoring
+      this.emit('request:update', request);
+    }
+  }
+
+  recordShadow(requestId: string, shadow: ShadowResult): void {
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.shadow = shadow;
+
+      // Emit event for real-time monitoring
+      this.emit('request:update', request);
+
+      // The shadow usually finishes after the primary was persisted
+      if (request.status !== 'pending') {
+        this.persistRequestLog(request);
+      }
+    }
+  }
+
+  recordHedge(requestId: string, legs: HedgeLeg[]): void {
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.hedge = legs.map(leg => {
+        if (leg.outcome === 'won') return leg;
+        const [provider, model] = leg.model.split(',');
+        const pricing = getModelPricing(this.pricing, provider, model);
+        return pricing ? { ...leg, cost: calculateCost(pricing, leg) } : leg;
+      });
+
+      // Emit event for real-time monitoring
+      this.emit('request:update', request);
+    }
+  }
+
+  recordFallback(requestId: string, hop: FallbackHop): void {
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.fallbacks = [...(request.fallbacks || []), hop];
+
+      // Emit event for real-time monitoring
+      this.emit('request:update', request);
+    }
+  }
+
+  recordProviderKey(requestId: string, keyId: string): void {
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.providerKeyId = keyId;
+
+      // Emit event for real-time monitoring
+      this.emit('request:update', request);
+    }
+  }
+
+  recordRetry(requestId: string, attempt: RetryAttempt): void {
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.retries = [...(request.retries || []), attempt];
+
+      // Emit event for real-time monitoring
+      this.emit('request:update', request);
+    }
+  }
+
+  recordCacheLookup(requestId: string, hit: boolean): void {
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.cache = hit ? 'hit' : 'miss';
+
+      const metrics = this.getOrCreateSessionMetrics(request.sessionId);
+      if (hit) {
+        metrics.cacheHits = (metrics.cacheHits || 0) + 1;
+      } else {
+        metrics.cacheMisses = (metrics.cacheMisses || 0) + 1;
+      }
+      this.persistMetrics();
+
+      // Emit events for real-time monitoring
+      this.emit('request:update', request);
+      this.emit('metrics:update', metrics);
+    }
+  }
+
+  private getOrCreateSessionMetrics(sessionId: string): SessionMetrics {
+    let metrics = this.sessionMetrics.get(sessionId);
 
     if (!metrics) {
       metrics = {
-        sessionId: request.sessionId,
+        sessionId,
         startTime: new Date(),
         requestCount: 0,
         totalInputTokens: 0,
         totalOutputTokens: 0,
         averageResponseTime: 0,
         errors: 0,
+        cacheHits: 0,
+        cacheMisses: 0,
+        totalCost: 0,
+        costByProvider: {},
+        costByModel: {},
+        latencyByModel: {},
         providers: {},
         models: {}
       };
-      this.sessionMetrics.set(request.sessionId, metrics);
+      this.sessionMetrics.set(sessionId, metrics);
     }
+    return metrics;
+  }
+
+  private updateCost(request: RequestLog): void {
+    const pricing = getModelPricing(this.pricing, request.provider, request.model);
+    // The losing leg of a hedged request was paid for as well
+    const hedgeCost = (request.hedge || []).reduce((sum, leg) => sum + (leg.outcome === 'won' ? 0 : leg.cost || 0), 0);
+    if (!pricing && !hedgeCost) return;
+    request.cost = (pricing ? calculateCost(pricing, request) : 0) + hedgeCost;
+  }
+
+  private recordLatency(request: RequestLog): void {
+    if (request.status !== 'success' || request.timeToFirstToken === undefined || !request.model) return;
+
+    let models = this.latencySamples.get(request.sessionId);
+    if (!models) {
+      models = new Map();
+      this.latencySamples.set(request.sessionId, models);
+    }
+    const samples = models.get(request.model) || { ttft: [], tokensPerSecond: [] };
+    models.set(request.model, samples);
+    samples.ttft.push(request.timeToFirstToken);
+    if (request.tokensPerSecond !== undefined) {
+      samples.tokensPerSecond.push(request.tokensPerSecond);
+    }
+    samples.ttft.splice(0, samples.ttft.length - MAX_LATENCY_SAMPLES);
+    samples.tokensPerSecond.splice(0, samples.tokensPerSecond.length - MAX_LATENCY_SAMPLES);
+
+    const metrics = this.getOrCreateSessionMetrics(request.sessionId);
+    metrics.latencyByModel = metrics.latencyByModel || {};
+    metrics.latencyByModel[request.model] = {
+      samples: samples.ttft.length,
+      ttftP50: percentile(samples.ttft, 50),
+      ttftP95: percentile(samples.ttft, 95),
+      tokensPerSecondP50: percentile(samples.tokensPerSecond, 50),
+      tokensPerSecondP95: percentile(samples.tokensPerSecond, 95)
+    };
+  }
+
+  private updateSessionMetrics(request: RequestLog, costDelta = 0): void {
+    const metrics = this.getOrCreateSessionMetrics(request.sessionId);
 
     // Update counts
     metrics.requestCount++;
@@ -204,6 +522,19 @@ class MonitoringService extends EventEmitter {
       metrics.totalOutputTokens += request.outputTokens;
     }
 
+    // Cost is recomputed on every update, so only the change is added
+    if (costDelta) {
+      metrics.totalCost = (metrics.totalCost || 0) + costDelta;
+      metrics.costByProvider = metrics.costByProvider || {};
+      metrics.costByModel = metrics.costByModel || {};
+      if (request.provider) {
+        metrics.costByProvider[request.provider] = (metrics.costByProvider[request.provider] || 0) + costDelta;
+      }
+      if (request.model) {
+        metrics.costByModel[request.model] = (metrics.costByModel[request.model] || 0) + costDelta;
+      }
+    }
+
     // Update average response time
     if (request.duration && request.status === 'success') {
       const totalTime = metrics.averageResponseTime * (metrics.requestCount - 1) + request.duration;
@@ -225,18 +556,22 @@ class MonitoringService extends EventEmitter {
     this.emit('metrics:update', metrics);
   }
 
-  private persistRequestLog(request: RequestLog): void {
-    const date = new Date();
-    const dateStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-    const logFile = join(this.logsDir, `${dateStr}.jsonl`);
+  getApiKeyId(headers: any = {}): string | undefined {
+    const value = headers.authorization || headers['x-api-key'];
+    const authKey: string = Array.isArray(value) ? value[0] : value || '';
+    const token = authKey.startsWith('Bearer') ? authKey.split(' ')[1] : authKey;
+    return token ? fingerprint(token) : undefined;
+  }
 
-    try {
-      const logLine = JSON.stringify(request) + '\n';
-      const fs = require('fs');
-      fs.appendFileSync(logFile, logLine);
-    } catch (e) {
-      console.error('Failed to persist request log:', e);
-    }
+  /**
+   * Path of the JSONL file completed requests of the given day are appended to.
+   */
+  getRequestLogFile(date: Date = new Date()): string {
+    return requestStore.getSegmentFile(date);
+  }
+
+  private persistRequestLog(request: RequestLog): void {
+    requestStore.append(request);
   }
 
   private archiveOldLogs(): void {
@@ -254,6 +589,10 @@ class MonitoringService extends EventEmitter {
     return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  getRequest(requestId: string): RequestLog | undefined {
+    return this.requests.get(requestId);
+  }
+
   getRecentRequests(sessionId?: string, limit: number = 100): RequestLog[] {
     const requests = Array.from(this.requests.values())
       .filter(r => !sessionId || r.sessionId === sessionId)
@@ -263,6 +602,124 @@ class MonitoringService extends EventEmitter {
     return requests;
   }
 
+  /**
+   * Daily and monthly cost totals from the request history of the last
+   * `days` days.
+   */
+  getCostSummary(days: number = 30): CostSummary {
+    const requests = this.getCompletedRequests(days);
+
+    const daily: Map<string, CostPeriod> = new Map();
+    const monthly: Map<string, CostPeriod> = new Map();
+    const addTo = (periods: Map<string, CostPeriod>, period: string, request: RequestLog) => {
+      let entry = periods.get(period);
+      if (!entry) {
+        entry = { period, cost: 0, requests: 0, inputTokens: 0, outputTokens: 0, providers: {}, models: {} };
+        periods.set(period, entry);
+      }
+      const cost = request.cost || 0;
+      entry.cost += cost;
+      entry.requests++;
+      entry.inputTokens += request.inputTokens || 0;
+      entry.outputTokens += request.outputTokens || 0;
+      if (request.provider) {
+        entry.providers[request.provider] = (entry.providers[request.provider] || 0) + cost;
+      }
+      if (request.model) {
+        entry.models[request.model] = (entry.models[request.model] || 0) + cost;
+      }
+    };
+
+    let totalCost = 0;
+    requests.forEach(request => {
+      // Token counting requests are answered locally and never billed
+      if (request.countedTokens !== undefined) return;
+      const date = new Date(request.timestamp);
+      const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+      addTo(daily, `${month}-${String(date.getDate()).padStart(2, '0')}`, request);
+      addTo(monthly, month, request);
+      totalCost += request.cost || 0;
+    });
+
+    const byPeriod = (a: CostPeriod, b: CostPeriod) => a.period.localeCompare(b.period);
+    return {
+      currency: 'USD',
+      totalCost,
+      daily: Array.from(daily.values()).sort(byPeriod),
+      monthly: Array.from(monthly.values()).sort(byPeriod)
+    };
+  }
+
+  /**
+   * Success rate, latency and token usage of each arm of the split targets,
+   * from the request history of the last `days` days.
+   */
+  getSplitSummary(days: number = 7): SplitArmSummary[] {
+    const arms: Map<string, { summary: SplitArmSummary; durations: number[]; ttft: number[] }> = new Map();
+    this.getCompletedRequests(days).forEach(request => {
+      const arm = request.routing?.arm;
+      if (!arm) return;
+      const key = JSON.stringify([request.routing!.scenario, arm]);
+      let entry = arms.get(key);
+      if (!entry) {
+        entry = {
+          summary: {
+            scenario: request.routing!.scenario,
+            arm,
+            requests: 0,
+            errors: 0,
+            successRate: 0,
+            averageDuration: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            cost: 0
+          },
+          durations: [],
+          ttft: []
+        };
+        arms.set(key, entry);
+      }
+      const { summary } = entry;
+      summary.requests++;
+      if (request.status === 'error') summary.errors++;
+      summary.inputTokens += request.inputTokens || 0;
+      summary.outputTokens += request.outputTokens || 0;
+      summary.cost += request.cost || 0;
+      if (request.duration !== undefined) entry.durations.push(request.duration);
+      if (request.timeToFirstToken !== undefined) entry.ttft.push(request.timeToFirstToken);
+    });
+
+    return Array.from(arms.values())
+      .map(({ summary, durations, ttft }) => ({
+        ...summary,
+        successRate: (summary.requests - summary.errors) / summary.requests,
+        averageDuration: durations.length ? durations.reduce((sum, value) => sum + value, 0) / durations.length : 0,
+        durationP95: percentile(durations, 95),
+        ttftP50: percentile(ttft, 50)
+      }))
+      .sort((a, b) => a.scenario.localeCompare(b.scenario) || a.arm.localeCompare(b.arm));
+  }
+
+  /**
+   * Completed requests of the last `days` days, from the history and from
+   * memory.
+   */
+  private getCompletedRequests(days: number): Map<string, RequestLog> {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - days + 1);
+
+    const requests: Map<string, RequestLog> = new Map();
+    requestStore.list({ from: since }).forEach(request => requests.set(request.id, request));
+    // Requests still in memory may not be persisted yet
+    this.requests.forEach((request, id) => {
+      if (request.status !== 'pending' && request.timestamp >= since) {
+        requests.set(id, request);
+      }
+    });
+    return requests;
+  }
+
   getSessionMetrics(sessionId: string): SessionMetrics | undefined {
     return this.sessionMetrics.get(sessionId);
   }
@@ -334,8 +791,10 @@ class MonitoringService extends EventEmitter {
   resetMetrics(sessionId?: string): void {
     if (sessionId) {
       this.sessionMetrics.delete(sessionId);
+      this.latencySamples.delete(sessionId);
     } else {
       this.sessionMetrics.clear();
+      this.latencySamples.clear();
     }
 
     this.persistMetrics();
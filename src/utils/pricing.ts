@@ -0,0 +1,46 @@
+// Per-model prices from `Pricing`, used for cost accounting in monitoring
+import { findModelEntry } from "./modelCapabilities";
+
+export interface ModelPricing {
+  // Prices in USD per million tokens
+  input?: number;
+  output?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+const PER_MILLION = 1_000_000;
+
+/**
+ * Look up the price of a model. Entries are keyed like `ModelCapabilities`,
+ * by `provider,model` or by the bare model name.
+ */
+export const getModelPricing = (
+  pricing: Record<string, ModelPricing> | undefined,
+  provider?: string,
+  model?: string
+): ModelPricing | undefined => {
+  if (!model) return undefined;
+  return findModelEntry(pricing, provider ? `${provider},${model}` : model);
+};
+
+/**
+ * Cost of a request in USD. Cache reads and writes fall back to the input
+ * price when the model has no separate cache prices.
+ */
+export const calculateCost = (pricing: ModelPricing, usage: TokenUsage): number => {
+  const input = pricing.input || 0;
+  const cost =
+    (usage.inputTokens || 0) * input +
+    (usage.outputTokens || 0) * (pricing.output || 0) +
+    (usage.cacheReadTokens || 0) * (pricing.cacheRead ?? input) +
+    (usage.cacheWriteTokens || 0) * (pricing.cacheWrite ?? input);
+  return cost / PER_MILLION;
+};
@@ -0,0 +1,40 @@
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+const paths = vi.hoisted(() => ({ home: '' }));
+
+// Request logs and metrics are written to a temporary directory instead of the user's home
+vi.mock('../constants', async () => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  paths.home = mkdtempSync(join(tmpdir(), 'ccr-prometheus-'));
+  return { HOME_DIR: paths.home };
+});
+
+import { monitoringService } from './monitoring';
+import { prometheusMetrics } from './prometheus';
+
+const start = (body: Record<string, any>) =>
+  monitoringService.startRequest({ method: 'POST', url: '/v1/messages', headers: {}, body });
+
+afterAll(() => {
+  rmSync(paths.home, { recursive: true, force: true });
+});
+
+describe('prometheusMetrics', () => {
+  it('counts requests per Claude Code session', () => {
+    const requestId = start({ model: 'claude', metadata: { user_id: 'u_session_s1' } });
+    expect(prometheusMetrics.render()).toContain('ccr_requests_in_flight 1');
+
+    monitoringService.updateRequest(requestId, { provider: 'p', model: 'm', inputTokens: 3, outputTokens: 4 });
+    monitoringService.endRequest(requestId);
+    monitoringService.endRequest(start({ model: 'claude' }), null, new Error('boom'));
+
+    const text = prometheusMetrics.render();
+    expect(text).toContain('ccr_requests_total{provider="p",model="m",status="success",session="s1"} 1');
+    expect(text).toContain('ccr_requests_total{provider="unknown",model="unknown",status="error",session="default"} 1');
+    expect(text).toContain('ccr_tokens_total{provider="p",model="m",type="output"} 4');
+    expect(text).toContain('ccr_requests_in_flight 0');
+  });
+});
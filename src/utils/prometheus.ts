@@ -0,0 +1,164 @@
+// Prometheus text exposition of the request data collected by `monitoringService`
+import { monitoringService, RequestLog } from './monitoring';
+import { CircuitState, providerHealthService } from './providerHealth';
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+interface HistogramSample {
+  labels: Labels;
+  // Cumulative counts, one per bucket bound
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+// Seconds; LLM calls range from sub-second cache hits to minutes of streaming
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+const CIRCUIT_STATES: Record<CircuitState, number> = {
+  closed: 0,
+  'half-open': 1,
+  open: 2
+};
+
+const escapeLabel = (value: string) => {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+};
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  if (!entries.length) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+};
+
+const labelKey = (labels: Labels) => JSON.stringify(labels);
+
+/**
+ * Counters are fed from the `request:start` and `request:end` events, so they
+ * are monotonic for the lifetime of the process even though the monitoring
+ * service only keeps the most recent requests in memory.
+ */
+class PrometheusMetrics {
+  private requests: Map<string, Sample> = new Map();
+  private tokens: Map<string, Sample> = new Map();
+  private cost: Map<string, Sample> = new Map();
+  private fallbacks: Map<string, Sample> = new Map();
+  private durations: Map<string, HistogramSample> = new Map();
+  private inFlight: Set<string> = new Set();
+  // endRequest may run more than once for the same request
+  private counted: WeakSet<RequestLog> = new WeakSet();
+
+  constructor() {
+    monitoringService.on('request:start', (request: RequestLog) => {
+      this.inFlight.add(request.id);
+    });
+    monitoringService.on('request:end', (request?: RequestLog) => {
+      if (request) this.record(request);
+    });
+    monitoringService.on('logs:cleared', () => this.inFlight.clear());
+  }
+
+  private increment(samples: Map<string, Sample>, labels: Labels, value = 1): void {
+    if (!value) return;
+    const key = labelKey(labels);
+    const sample = samples.get(key) || { labels, value: 0 };
+    sample.value += value;
+    samples.set(key, sample);
+  }
+
+  private observe(labels: Labels, seconds: number): void {
+    const key = labelKey(labels);
+    const sample = this.durations.get(key) || {
+      labels,
+      buckets: DURATION_BUCKETS.map(() => 0),
+      sum: 0,
+      count: 0
+    };
+    DURATION_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) sample.buckets[index]++;
+    });
+    sample.sum += seconds;
+    sample.count++;
+    this.durations.set(key, sample);
+  }
+
+  private record(request: RequestLog): void {
+    this.inFlight.delete(request.id);
+    if (this.counted.has(request) || request.status === 'pending') return;
+    this.counted.add(request);
+
+    const provider = request.provider || 'unknown';
+    const model = request.model || 'unknown';
+    this.increment(this.requests, {
+      provider,
+      model,
+      status: request.status,
+      session: request.sessionId || 'default'
+    });
+    if (typeof request.duration === 'number') {
+      this.observe({ provider, model }, request.duration / 1000);
+    }
+    this.increment(this.tokens, { provider, model, type: 'input' }, request.inputTokens || 0);
+    this.increment(this.tokens, { provider, model, type: 'output' }, request.outputTokens || 0);
+    this.increment(this.tokens, { provider, model, type: 'cache_read' }, request.cacheReadTokens || 0);
+    this.increment(this.tokens, { provider, model, type: 'cache_write' }, request.cacheWriteTokens || 0);
+    this.increment(this.cost, { provider, model }, request.cost || 0);
+    request.fallbacks?.forEach(hop => {
+      this.increment(this.fallbacks, { from: hop.model, status: String(hop.status ?? 'unknown') });
+    });
+  }
+
+  /**
+   * Render all metrics. `providers` lists the configured providers, so their
+   * circuit state is reported before they received any traffic.
+   */
+  render(providers: string[] = []): string {
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string, samples: Sample[]) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      samples.forEach(sample => lines.push(`${name}${formatLabels(sample.labels)} ${sample.value}`));
+    };
+
+    family('ccr_requests_total', 'counter', 'Completed requests.', Array.from(this.requests.values()));
+
+    lines.push(
+      '# HELP ccr_request_duration_seconds Request duration until the response was complete.',
+      '# TYPE ccr_request_duration_seconds histogram'
+    );
+    this.durations.forEach(sample => {
+      DURATION_BUCKETS.forEach((bound, index) => {
+        lines.push(`ccr_request_duration_seconds_bucket${formatLabels({ ...sample.labels, le: String(bound) })} ${sample.buckets[index]}`);
+      });
+      lines.push(
+        `ccr_request_duration_seconds_bucket${formatLabels({ ...sample.labels, le: '+Inf' })} ${sample.count}`,
+        `ccr_request_duration_seconds_sum${formatLabels(sample.labels)} ${sample.sum}`,
+        `ccr_request_duration_seconds_count${formatLabels(sample.labels)} ${sample.count}`
+      );
+    });
+
+    family('ccr_tokens_total', 'counter', 'Tokens reported by providers.', Array.from(this.tokens.values()));
+    family('ccr_cost_usd_total', 'counter', 'Cost of completed requests in USD, from the Pricing table.', Array.from(this.cost.values()));
+    family('ccr_fallback_hops_total', 'counter', 'Failed attempts that were retried on the next fallback candidate.', Array.from(this.fallbacks.values()));
+    family('ccr_requests_in_flight', 'gauge', 'Requests that have not completed yet.', [
+      { labels: {}, value: this.inFlight.size }
+    ]);
+
+    const health = providerHealthService.getHealth(providers);
+    family('ccr_circuit_state', 'gauge', 'Provider circuit state: 0 closed, 1 half-open, 2 open.',
+      health.map(item => ({ labels: { provider: item.provider }, value: CIRCUIT_STATES[item.state] })));
+    family('ccr_provider_failures_total', 'counter', 'Failed upstream calls per provider.',
+      health.map(item => ({ labels: { provider: item.provider }, value: item.totalFailures })));
+    family('ccr_provider_successes_total', 'counter', 'Successful upstream calls per provider.',
+      health.map(item => ({ labels: { provider: item.provider }, value: item.totalSuccesses })));
+
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+// Export singleton instance
+export const prometheusMetrics = new PrometheusMetrics();
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { providerHealthService } from './providerHealth';
+
+describe('providerHealthService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    providerHealthService.reset();
+    providerHealthService.configure({ failureThreshold: 2, cooldownMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const stateOf = (provider: string) =>
+    providerHealthService.getHealth().find(health => health.provider === provider)?.state;
+
+  it('opens the circuit after consecutive failures', () => {
+    providerHealthService.recordFailure('p', new Error('boom'));
+    expect(stateOf('p')).toBe('closed');
+    providerHealthService.recordFailure('p', new Error('boom'));
+    expect(stateOf('p')).toBe('open');
+    expect(providerHealthService.isAvailable('p')).toBe(false);
+  });
+
+  it('resets the failure count on success', () => {
+    providerHealthService.recordFailure('p');
+    providerHealthService.recordSuccess('p');
+    providerHealthService.recordFailure('p');
+    expect(stateOf('p')).toBe('closed');
+  });
+
+  it('lets a single probe through once the cool-down has elapsed', () => {
+    providerHealthService.recordFailure('p');
+    providerHealthService.recordFailure('p');
+    vi.advanceTimersByTime(1000);
+    expect(providerHealthService.isAvailable('p')).toBe(true);
+
+    providerHealthService.acquire('p');
+    expect(stateOf('p')).toBe('half-open');
+    expect(providerHealthService.isAvailable('p')).toBe(false);
+  });
+
+  it('closes on a successful probe and re-opens on a failed one', () => {
+    providerHealthService.recordFailure('p');
+    providerHealthService.recordFailure('p');
+    vi.advanceTimersByTime(1000);
+    providerHealthService.acquire('p');
+    providerHealthService.recordSuccess('p');
+    expect(stateOf('p')).toBe('closed');
+
+    providerHealthService.recordFailure('q');
+    providerHealthService.recordFailure('q');
+    vi.advanceTimersByTime(1000);
+    providerHealthService.acquire('q');
+    providerHealthService.recordFailure('q');
+    expect(stateOf('q')).toBe('open');
+    expect(providerHealthService.isAvailable('q')).toBe(false);
+  });
+
+  it('only counts failures when disabled', () => {
+    providerHealthService.configure({ enabled: false, failureThreshold: 1 });
+    providerHealthService.recordFailure('p');
+    expect(stateOf('p')).toBe('closed');
+    expect(providerHealthService.getHealth()[0].totalFailures).toBe(1);
+    expect(providerHealthService.isAvailable('p')).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import { EventEmitter } from 'events';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError?: string;
+  lastFailureAt?: Date;
+  lastSuccessAt?: Date;
+  openedAt?: Date;
+  retryAt?: Date;
+}
+
+export interface CircuitBreakerConfig {
+  enabled?: boolean;
+  failureThreshold?: number;
+  cooldownMs?: number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30000;
+
+/**
+ * Tracks upstream failures per provider and opens a circuit after
+ * `failureThreshold` consecutive failures. While open, the router skips the
+ * provider; once `cooldownMs` has elapsed a single half-open probe is let
+ * through, and its outcome closes or re-opens the circuit.
+ */
+class ProviderHealthService extends EventEmitter {
+  private health: Map<string, ProviderHealth> = new Map();
+  private probeStartedAt: Map<string, number> = new Map();
+  private enabled = true;
+  private failureThreshold = DEFAULT_FAILURE_THRESHOLD;
+  private cooldownMs = DEFAULT_COOLDOWN_MS;
+
+  configure(config: CircuitBreakerConfig = {}): void {
+    this.enabled = config.enabled !== false;
+    this.failureThreshold = config.failureThreshold || DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = config.cooldownMs || DEFAULT_COOLDOWN_MS;
+  }
+
+  private getOrCreate(provider: string): ProviderHealth {
+    let health = this.health.get(provider);
+    if (!health) {
+      health = {
+        provider,
+        state: 'closed',
+        consecutiveFailures: 0,
+        totalFailures: 0,
+        totalSuccesses: 0
+      };
+      this.health.set(provider, health);
+    }
+    return health;
+  }
+
+  private setState(health: ProviderHealth, state: CircuitState): void {
+    if (health.state === state) return;
+    health.state = state;
+    if (state === 'open') {
+      health.openedAt = new Date();
+      health.retryAt = new Date(Date.now() + this.cooldownMs);
+    } else if (state === 'closed') {
+      health.openedAt = undefined;
+      health.retryAt = undefined;
+    }
+    this.emit('state:change', { ...health });
+  }
+
+  /**
+   * Whether requests may be sent to the provider right now. Does not change
+   * state; use `acquire` when actually dispatching to the provider.
+   */
+  isAvailable(provider: string): boolean {
+    if (!this.enabled) return true;
+    const health = this.health.get(provider);
+    if (!health || health.state === 'closed') return true;
+
+    const now = Date.now();
+    if (health.state === 'open') {
+      return now >= (health.retryAt?.getTime() || 0);
+    }
+    // Half-open: only one probe at a time, unless the probe never resolved
+    const probeStartedAt = this.probeStartedAt.get(provider) || 0;
+    return now - probeStartedAt >= this.cooldownMs;
+  }
+
+  /**
+   * Mark a request as dispatched to the provider. An open circuit whose
+   * cool-down has elapsed moves to half-open and this request becomes the probe.
+   */
+  acquire(provider: string): void {
+    if (!this.enabled) return;
+    const health = this.health.get(provider);
+    if (!health || health.state === 'closed') return;
+    if (this.isAvailable(provider)) {
+      this.probeStartedAt.set(provider, Date.now());
+      this.setState(health, 'half-open');
+    }
+  }
+
+  recordSuccess(provider: string): void {
+    const health = this.getOrCreate(provider);
+    health.consecutiveFailures = 0;
+    health.totalSuccesses++;
+    health.lastSuccessAt = new Date();
+    this.probeStartedAt.delete(provider);
+    this.setState(health, 'closed');
+  }
+
+  recordFailure(provider: string, error?: any): void {
+    const health = this.getOrCreate(provider);
+    health.consecutiveFailures++;
+    health.totalFailures++;
+    health.lastFailureAt = new Date();
+    health.lastError = error?.message?.slice(0, 500);
+
+    if (!this.enabled) return;
+    // A failed probe re-opens the circuit and restarts the cool-down
+    if (
+      health.state === 'half-open' ||
+      (health.state === 'closed' && health.consecutiveFailures >= this.failureThreshold)
+    ) {
+      this.probeStartedAt.delete(provider);
+      this.setState(health, 'open');
+    }
+  }
+
+  getHealth(providers: string[] = []): ProviderHealth[] {
+    providers.forEach(provider => this.getOrCreate(provider));
+    return Array.from(this.health.values());
+  }
+
+  reset(provider?: string): void {
+    if (provider) {
+      this.health.delete(provider);
+      this.probeStartedAt.delete(provider);
+    } else {
+      this.health.clear();
+      this.probeStartedAt.clear();
+    }
+  }
+}
+
+// Export singleton instance
+export const providerHealthService = new ProviderHealthService();
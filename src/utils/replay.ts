@@ -0,0 +1,129 @@
+// Replays of logged requests against another model, for comparing models on
+// real traffic before changing the Router.
+import { CapturedResponse, ResponseAssembler } from "./capture";
+import type { RequestLog } from "./monitoring";
+import { calculateCost, getModelPricing, ModelPricing } from "./pricing";
+
+// Marks a replay; its value is the id of the replayed request
+export const REPLAY_HEADER = "x-ccr-replay";
+
+export interface ReplayOutcome {
+  provider?: string;
+  model?: string;
+  status: RequestLog["status"];
+  error?: string;
+  response?: CapturedResponse;
+  inputTokens?: number;
+  outputTokens?: number;
+  latencyMs?: number;
+  // USD, from the `Pricing` entry of the model
+  cost?: number;
+}
+
+export interface ReplayComparison {
+  requestId: string;
+  original: ReplayOutcome;
+  replay: ReplayOutcome;
+}
+
+const toUsage = (usage: any = {}) => ({
+  inputTokens: usage.input_tokens,
+  outputTokens: usage.output_tokens,
+  cacheReadTokens: usage.cache_read_input_tokens,
+  cacheWriteTokens: usage.cache_creation_input_tokens,
+});
+
+/**
+ * Send a routed Messages API body to `target` (`provider,model`) through this
+ * service and collect the outcome. `headers` must pin the route, so the
+ * request is not rerouted.
+ */
+export const sendToModel = async (
+  body: any,
+  target: string,
+  options: {
+    port: number;
+    apiKey?: string;
+    pricing?: Record<string, ModelPricing>;
+    headers: Record<string, string>;
+  }
+): Promise<ReplayOutcome> => {
+  const [provider, model] = target.split(",");
+  const payload = { ...body, model: target };
+
+  const startedAt = Date.now();
+  const outcome: ReplayOutcome = { provider, model, status: "success" };
+  try {
+    const response = await fetch(`http://127.0.0.1:${options.port}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "x-api-key": options.apiKey || "",
+        "content-type": "application/json",
+        ...options.headers,
+      },
+      body: JSON.stringify(payload),
+    });
+    const text = await response.text();
+    outcome.latencyMs = Date.now() - startedAt;
+    if (!response.ok) {
+      outcome.status = "error";
+      outcome.error = `${response.status}: ${text.slice(0, 2000)}`;
+    } else if (payload.stream === true) {
+      const assembler = new ResponseAssembler();
+      assembler.write(text);
+      outcome.response = assembler.result();
+    } else {
+      outcome.response = ResponseAssembler.fromMessage(JSON.parse(text));
+    }
+  } catch (error: any) {
+    outcome.status = "error";
+    outcome.error = error.message;
+    outcome.latencyMs = Date.now() - startedAt;
+  }
+
+  const usage = toUsage(outcome.response?.usage);
+  outcome.inputTokens = usage.inputTokens;
+  outcome.outputTokens = usage.outputTokens;
+  const pricing = getModelPricing(options.pricing, provider, model);
+  if (pricing && outcome.response?.usage) {
+    outcome.cost = calculateCost(pricing, usage);
+  }
+  return outcome;
+};
+
+/**
+ * Re-send the routed body of a captured request to `target` and compare the
+ * outcome with the original. Replays skip routing, failover, budget
+ * downgrades and the response cache, and keep the original `stream` setting
+ * so latencies compare.
+ */
+export const replayRequest = async (
+  original: RequestLog,
+  target: string,
+  options: {
+    port: number;
+    apiKey?: string;
+    pricing?: Record<string, ModelPricing>;
+  }
+): Promise<ReplayComparison> => {
+  const replay = await sendToModel(original.capture!.routed, target, {
+    ...options,
+    headers: { [REPLAY_HEADER]: original.id },
+  });
+
+  return {
+    requestId: original.id,
+    original: {
+      provider: original.provider,
+      model: original.model,
+      status: original.status,
+      error: original.error,
+      response: original.capture?.response,
+      inputTokens: original.inputTokens,
+      outputTokens: original.outputTokens,
+      latencyMs: original.duration,
+      cost: original.cost,
+    },
+    replay,
+  };
+};
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./monitoring', () => ({
+  monitoringService: { recordQueue: vi.fn() }
+}));
+
+let requestQueue: typeof import('./requestQueue').requestQueue;
+
+// Lets the promise callbacks queued by a grant run
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+const track = (promise: Promise<any>) => {
+  const state: { ticket?: any; error?: Error } = {};
+  promise.then(ticket => (state.ticket = ticket), error => (state.error = error));
+  return state;
+};
+
+describe('requestQueue', () => {
+  beforeEach(async () => {
+    // Waiters left by a test must not hold up the next one
+    vi.resetModules();
+    ({ requestQueue } = await import('./requestQueue'));
+    requestQueue.configure({ providers: { p: { maxConcurrent: 1 } }, maxWaitMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not queue models without a limit', async () => {
+    const ticket = await requestQueue.acquire('other,m');
+    expect(ticket).toMatchObject({ depth: 0, waitMs: 0 });
+  });
+
+  it('dispatches queued requests by priority, then by arrival', async () => {
+    const first = await requestQueue.acquire('p,m', { requestId: 'r1' });
+    const order: string[] = [];
+    const queued = ['background', 'think', 'default'].map(scenario =>
+      requestQueue.acquire('p,m', { scenario }).then(ticket => {
+        order.push(scenario);
+        ticket.release();
+      })
+    );
+    expect(requestQueue.getState()[0]).toMatchObject({ key: 'provider:p', active: 1, queued: 3 });
+
+    first.release();
+    await Promise.all(queued);
+    expect(order).toEqual(['default', 'think', 'background']);
+    expect(requestQueue.getState()[0]).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('rejects a request that waited longer than maxWaitMs', async () => {
+    vi.useFakeTimers();
+    const first = await requestQueue.acquire('p,m');
+    const second = track(requestQueue.acquire('p,m'));
+    vi.advanceTimersByTime(1000);
+    await Promise.resolve();
+    expect(second.error?.message).toBe('Waited more than 1000ms for a p,m slot');
+    expect(requestQueue.getState()[0].queued).toBe(0);
+    first.release();
+  });
+
+  it('rejects a queued request whose signal is aborted', async () => {
+    const first = await requestQueue.acquire('p,m');
+    const controller = new AbortController();
+    const second = track(requestQueue.acquire('p,m', { signal: controller.signal }));
+    controller.abort();
+    await settle();
+    expect(second.error?.message).toBe('Request closed while queued');
+    first.release();
+  });
+
+  it('holds requests over rpm until the window has room', async () => {
+    vi.useFakeTimers();
+    requestQueue.configure({ models: { 'p,m': { rpm: 1 } } });
+    (await requestQueue.acquire('p,m')).release();
+    const second = track(requestQueue.acquire('p,m'));
+    await Promise.resolve();
+    expect(second.ticket).toBeUndefined();
+
+    vi.advanceTimersByTime(60 * 1000);
+    await Promise.resolve();
+    expect(second.ticket).toBeDefined();
+    second.ticket.release();
+  });
+
+  it('lets a request share the slot of the request it is sent for', async () => {
+    const parent = await requestQueue.acquire('p,m', { requestId: 'parent' });
+    const child = track(requestQueue.acquire('p,m', { parentId: 'parent' }));
+    const other = track(requestQueue.acquire('p,m', { parentId: 'unknown' }));
+    await settle();
+    expect(child.ticket).toMatchObject({ depth: 0, waitMs: 0 });
+    expect(other.ticket).toBeUndefined();
+
+    child.ticket.release();
+    expect(requestQueue.getState()[0].active).toBe(1);
+    parent.release();
+    await settle();
+    expect(other.ticket).toBeDefined();
+    other.ticket.release();
+
+    // The parent no longer holds a slot once it released it
+    const blocker = await requestQueue.acquire('p,m');
+    const late = track(requestQueue.acquire('p,m', { parentId: 'parent' }));
+    await settle();
+    expect(late.ticket).toBeUndefined();
+    blocker.release();
+    await settle();
+    late.ticket.release();
+  });
+});
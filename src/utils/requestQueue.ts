@@ -0,0 +1,239 @@
+import { monitoringService } from './monitoring';
+
+export interface ConcurrencyLimit {
+  // Upstream requests in flight at once
+  maxConcurrent?: number;
+  // Upstream requests started per minute
+  rpm?: number;
+}
+
+export interface RateLimitsConfig {
+  // Keyed by provider name
+  providers?: Record<string, ConcurrencyLimit>;
+  // Keyed by `provider,model`
+  models?: Record<string, ConcurrencyLimit>;
+  // Router scenarios with a higher priority are dispatched first
+  priorities?: Record<string, number>;
+  // Queued requests are rejected with a 429 after this long
+  maxWaitMs?: number;
+}
+
+export interface QueueTicket {
+  // Requests ahead in the queue when this one was queued
+  depth: number;
+  waitMs: number;
+  release: () => void;
+}
+
+export interface QueueState {
+  key: string;
+  active: number;
+  queued: number;
+  startedLastMinute: number;
+  maxConcurrent?: number;
+  rpm?: number;
+}
+
+interface Limiter {
+  limit: ConcurrencyLimit;
+  active: number;
+  // Start times of the requests of the last minute
+  started: number[];
+}
+
+interface Waiter {
+  keys: string[];
+  priority: number;
+  seq: number;
+  grant: () => void;
+}
+
+// Set on requests this service sends itself while handling a request, such
+// as agent tool calls; its value is the monitoring id of that request
+export const PARENT_REQUEST_HEADER = 'x-ccr-parent-request';
+
+const WINDOW_MS = 60 * 1000;
+const DEFAULT_MAX_WAIT_MS = 120 * 1000;
+// Interactive requests are served before background ones
+const DEFAULT_PRIORITIES: Record<string, number> = { default: 1, background: -1 };
+
+/**
+ * Caps the upstream requests in flight and started per minute, per provider
+ * and per model. Requests over a limit wait in a queue ordered by the
+ * priority of their Router scenario, then by arrival. A request sent on
+ * behalf of one that holds a slot shares that slot, as queueing behind its
+ * own parent would never end.
+ */
+class RequestQueue {
+  private config: RateLimitsConfig = {};
+  private limiters: Map<string, Limiter> = new Map();
+  private waiting: Waiter[] = [];
+  // Slots held by each request id
+  private holders: Map<string, number> = new Map();
+  private seq = 0;
+  private timer?: NodeJS.Timeout;
+
+  configure(config: RateLimitsConfig = {}): void {
+    this.config = config;
+    this.limiters.clear();
+    const add = (key: string, limit: ConcurrencyLimit) => {
+      if (limit && (limit.maxConcurrent || limit.rpm)) {
+        this.limiters.set(key, { limit, active: 0, started: [] });
+      }
+    };
+    Object.entries(config.providers || {}).forEach(([provider, limit]) => add(`provider:${provider}`, limit));
+    Object.entries(config.models || {}).forEach(([model, limit]) => add(`model:${model}`, limit));
+  }
+
+  getPriority(scenario?: string): number {
+    const priorities = { ...DEFAULT_PRIORITIES, ...this.config.priorities };
+    return (scenario && priorities[scenario]) || 0;
+  }
+
+  /**
+   * Wait for a slot to send `model` (`provider,model`) upstream. The ticket
+   * must be released once the upstream call is over. A request whose
+   * `parentId` holds a slot gets its ticket right away. Rejects when the
+   * wait exceeds `maxWaitMs` or `signal` is aborted.
+   */
+  acquire(
+    model: string,
+    options: { scenario?: string; requestId?: string; parentId?: string; signal?: AbortSignal } = {}
+  ): Promise<QueueTicket> {
+    const [provider] = model.split(',');
+    const keys = [`provider:${provider}`, `model:${model}`].filter(key => this.limiters.has(key));
+    const enqueuedAt = Date.now();
+    let released = false;
+    let holding = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      keys.forEach(key => {
+        const limiter = this.limiters.get(key);
+        if (limiter) limiter.active = Math.max(0, limiter.active - 1);
+      });
+      if (holding) this.untrack(options.requestId!);
+      this.pump();
+    };
+    if (options.parentId && this.holders.has(options.parentId)) {
+      return Promise.resolve({ depth: 0, waitMs: 0, release: () => {} });
+    }
+    if (!keys.length) {
+      return Promise.resolve({ depth: 0, waitMs: 0, release });
+    }
+
+    const priority = this.getPriority(options.scenario);
+    const depth = this.waiting.filter(
+      waiter => waiter.priority >= priority && waiter.keys.some(key => keys.includes(key))
+    ).length;
+    if (options.requestId) {
+      monitoringService.recordQueue(options.requestId, { depth });
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        keys,
+        priority,
+        seq: this.seq++,
+        grant: () => {
+          cleanup();
+          const waitMs = Date.now() - enqueuedAt;
+          if (options.requestId) {
+            monitoringService.recordQueue(options.requestId, { depth, waitMs });
+            this.holders.set(options.requestId, (this.holders.get(options.requestId) || 0) + 1);
+            holding = true;
+          }
+          resolve({ depth, waitMs, release });
+        }
+      };
+      const fail = (message: string) => {
+        cleanup();
+        this.waiting = this.waiting.filter(item => item !== waiter);
+        reject(new Error(message));
+      };
+      const maxWaitMs = this.config.maxWaitMs || DEFAULT_MAX_WAIT_MS;
+      const timeout = setTimeout(
+        () => fail(`Waited more than ${maxWaitMs}ms for a ${model} slot`),
+        maxWaitMs
+      );
+      const onAbort = () => fail('Request closed while queued');
+      const cleanup = () => {
+        clearTimeout(timeout);
+        options.signal?.removeEventListener('abort', onAbort);
+      };
+      options.signal?.addEventListener('abort', onAbort);
+
+      this.waiting.push(waiter);
+      this.waiting.sort((a, b) => b.priority - a.priority || a.seq - b.seq);
+      this.pump();
+    });
+  }
+
+  /**
+   * Current load of every limited provider and model.
+   */
+  getState(): QueueState[] {
+    const now = Date.now();
+    return Array.from(this.limiters.entries()).map(([key, limiter]) => ({
+      key,
+      active: limiter.active,
+      queued: this.waiting.filter(waiter => waiter.keys.includes(key)).length,
+      startedLastMinute: limiter.started.filter(time => now - time < WINDOW_MS).length,
+      maxConcurrent: limiter.limit.maxConcurrent,
+      rpm: limiter.limit.rpm
+    }));
+  }
+
+  private untrack(requestId: string): void {
+    const held = this.holders.get(requestId) || 0;
+    if (held > 1) {
+      this.holders.set(requestId, held - 1);
+    } else {
+      this.holders.delete(requestId);
+    }
+  }
+
+  /**
+   * Dispatch the waiting requests that fit their limits, in queue order.
+   */
+  private pump(): void {
+    const now = Date.now();
+    let retryAt = Infinity;
+    this.limiters.forEach(limiter => {
+      limiter.started = limiter.started.filter(time => now - time < WINDOW_MS);
+    });
+
+    this.waiting = this.waiting.filter(waiter => {
+      const limiters = waiter.keys.map(key => this.limiters.get(key)!);
+      const blocked = limiters.some(limiter => {
+        const { maxConcurrent, rpm } = limiter.limit;
+        if (maxConcurrent && limiter.active >= maxConcurrent) return true;
+        if (rpm && limiter.started.length >= rpm) {
+          retryAt = Math.min(retryAt, limiter.started[0] + WINDOW_MS);
+          return true;
+        }
+        return false;
+      });
+      if (blocked) return true;
+      limiters.forEach(limiter => {
+        limiter.active++;
+        limiter.started.push(now);
+      });
+      waiter.grant();
+      return false;
+    });
+
+    // Requests held back by `rpm` are retried once the window has room
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.waiting.length && retryAt !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), Math.max(0, retryAt - now));
+      this.timer.unref();
+    }
+  }
+}
+
+// Export singleton instance
+export const requestQueue = new RequestQueue();
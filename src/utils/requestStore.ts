@@ -0,0 +1,365 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  readdirSync,
+  statSync,
+  unlinkSync,
+  writeFileSync
+} from 'fs';
+import { join } from 'path';
+import { HOME_DIR } from '../constants';
+import type { RequestLog } from './monitoring';
+
+export interface RequestHistoryConfig {
+  // Segments of days older than this are deleted; unset or 0 keeps every day
+  retentionDays?: number;
+  // The oldest segments are deleted while the history is larger than this
+  maxSizeMB?: number;
+  // Requests held in the in-memory index; older days are left out of queries
+  maxIndexedRequests?: number;
+}
+
+export interface RequestQuery {
+  from?: Date;
+  to?: Date;
+  sessionId?: string;
+  provider?: string;
+  model?: string;
+  status?: RequestLog['status'];
+  // Case-insensitive substring of the error message
+  error?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RequestPage {
+  total: number;
+  limit: number;
+  offset: number;
+  requests: RequestLog[];
+}
+
+interface IndexEntry {
+  id: string;
+  timestamp: number;
+  sessionId?: string;
+  provider?: string;
+  model?: string;
+  status: RequestLog['status'];
+  error?: string;
+  segment: string;
+  offset: number;
+  length: number;
+}
+
+interface Segment {
+  // Bytes of the segment that are indexed
+  size: number;
+  entries: IndexEntry[];
+}
+
+const SEGMENT_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+const DEFAULT_MAX_INDEXED_REQUESTS = 100000;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+
+const formatDate = (date: Date) => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Durable history of completed requests, kept as an append-only log with an
+ * index. Requests are appended to one JSONL segment per day, which every
+ * running session shares. The index holds the filterable fields and the byte
+ * range of each request; it is caught up with new appends before every query,
+ * and saved for segments of past days, which no longer change. Only the
+ * newest days that fit `maxIndexedRequests` are held in memory.
+ */
+class RequestStore {
+  private dir = join(HOME_DIR, 'logs', 'requests');
+  private indexDir = join(this.dir, 'index');
+  private config: RequestHistoryConfig = {};
+  private segments: Map<string, Segment> = new Map();
+  // A request may be appended more than once; the last entry wins
+  private entries: Map<string, IndexEntry> = new Map();
+  private timer?: NodeJS.Timeout;
+
+  configure(config: RequestHistoryConfig = {}): void {
+    this.config = config;
+    this.enforceRetention();
+    if (!this.timer) {
+      this.timer = setInterval(() => this.enforceRetention(), RETENTION_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Path of the segment requests completed on the given day are appended to.
+   */
+  getSegmentFile(date: Date = new Date()): string {
+    return join(this.dir, `${formatDate(date)}.jsonl`);
+  }
+
+  append(request: RequestLog): void {
+    try {
+      if (!existsSync(this.dir)) {
+        mkdirSync(this.dir, { recursive: true });
+      }
+      appendFileSync(this.getSegmentFile(), JSON.stringify(request) + '\n');
+    } catch (e) {
+      console.error('Failed to persist request log:', e);
+    }
+  }
+
+  /**
+   * One page of the matching requests, newest first.
+   */
+  query(query: RequestQuery = {}): RequestPage {
+    const limit = Math.min(Math.max(1, query.limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const offset = Math.max(0, query.offset || 0);
+    const matches = this.find(query);
+    return {
+      total: matches.length,
+      limit,
+      offset,
+      requests: this.read(matches.slice(offset, offset + limit))
+    };
+  }
+
+  get(id: string): RequestLog | undefined {
+    this.refresh();
+    const entry = this.entries.get(id);
+    return entry ? this.read([entry])[0] : undefined;
+  }
+
+  /**
+   * Every matching request, newest first.
+   */
+  list(query: Omit<RequestQuery, 'limit' | 'offset'> = {}): RequestLog[] {
+    return this.read(this.find(query));
+  }
+
+  private find(query: RequestQuery): IndexEntry[] {
+    this.refresh();
+    const from = query.from?.getTime();
+    const to = query.to?.getTime();
+    const error = query.error?.toLowerCase();
+    const matches: IndexEntry[] = [];
+    this.entries.forEach(entry => {
+      if (from !== undefined && entry.timestamp < from) return;
+      if (to !== undefined && entry.timestamp > to) return;
+      if (query.sessionId && entry.sessionId !== query.sessionId) return;
+      if (query.provider && entry.provider !== query.provider) return;
+      if (query.model && entry.model !== query.model) return;
+      if (query.status && entry.status !== query.status) return;
+      if (error && !entry.error?.toLowerCase().includes(error)) return;
+      matches.push(entry);
+    });
+    return matches.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  private read(entries: IndexEntry[]): RequestLog[] {
+    const fds: Map<string, number> = new Map();
+    try {
+      return entries.flatMap(entry => {
+        let fd = fds.get(entry.segment);
+        if (fd === undefined) {
+          fd = openSync(join(this.dir, `${entry.segment}.jsonl`), 'r');
+          fds.set(entry.segment, fd);
+        }
+        const buffer = Buffer.alloc(entry.length);
+        readSync(fd, buffer, 0, entry.length, entry.offset);
+        try {
+          return [JSON.parse(buffer.toString('utf-8'))];
+        } catch {
+          return [];
+        }
+      });
+    } finally {
+      fds.forEach(fd => closeSync(fd));
+    }
+  }
+
+  private listSegments(): string[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .map(file => file.match(SEGMENT_PATTERN)?.[1])
+      .filter((name): name is string => !!name)
+      .sort();
+  }
+
+  /**
+   * Index the segments and appends that are not indexed yet.
+   */
+  private refresh(): void {
+    const today = formatDate(new Date());
+    const names = this.listSegments();
+    const present = new Set(names);
+    Array.from(this.segments.keys())
+      .filter(name => !present.has(name))
+      .forEach(name => this.dropSegment(name));
+
+    // Newest first, so the days left out of the index are the oldest
+    const maxEntries = this.config.maxIndexedRequests || DEFAULT_MAX_INDEXED_REQUESTS;
+    let indexed = 0;
+    names.reverse().forEach(name => {
+      if (indexed >= maxEntries) {
+        this.dropSegment(name);
+        return;
+      }
+      const file = join(this.dir, `${name}.jsonl`);
+      let size: number;
+      try {
+        size = statSync(file).size;
+      } catch {
+        return;
+      }
+      let segment = this.segments.get(name);
+      if (!segment) {
+        segment = (name < today && this.loadIndex(name, size)) || { size: 0, entries: [] };
+        this.segments.set(name, segment);
+        segment.entries.forEach(entry => this.entries.set(entry.id, entry));
+      }
+      if (size > segment.size) {
+        this.scan(name, file, segment, size);
+        if (name < today && segment.size === size) {
+          this.saveIndex(name, segment);
+        }
+      }
+      indexed += segment.entries.length;
+    });
+  }
+
+  private scan(name: string, file: string, segment: Segment, size: number): void {
+    const buffer = Buffer.alloc(size - segment.size);
+    const fd = openSync(file, 'r');
+    try {
+      readSync(fd, buffer, 0, buffer.length, segment.size);
+    } finally {
+      closeSync(fd);
+    }
+
+    let start = 0;
+    let end = buffer.indexOf(0x0a);
+    // A partially written last line is left for the next refresh
+    while (end >= 0) {
+      const line = buffer.subarray(start, end).toString('utf-8');
+      if (line.trim()) {
+        try {
+          const request = JSON.parse(line);
+          if (request?.id) {
+            const entry: IndexEntry = {
+              id: request.id,
+              timestamp: new Date(request.timestamp).getTime(),
+              sessionId: request.sessionId,
+              provider: request.provider,
+              model: request.model,
+              status: request.status,
+              error: request.error,
+              segment: name,
+              offset: segment.size + start,
+              length: end - start
+            };
+            segment.entries.push(entry);
+            this.entries.set(entry.id, entry);
+          }
+        } catch {}
+      }
+      start = end + 1;
+      end = buffer.indexOf(0x0a, start);
+    }
+    segment.size += start;
+  }
+
+  private getIndexFile(name: string): string {
+    return join(this.indexDir, `${name}.json`);
+  }
+
+  private loadIndex(name: string, size: number): Segment | undefined {
+    const file = this.getIndexFile(name);
+    if (!existsSync(file)) return undefined;
+    try {
+      const segment: Segment = JSON.parse(readFileSync(file, 'utf-8'));
+      // The segment changed since it was indexed
+      return segment.size === size ? segment : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private saveIndex(name: string, segment: Segment): void {
+    try {
+      if (!existsSync(this.indexDir)) {
+        mkdirSync(this.indexDir, { recursive: true });
+      }
+      writeFileSync(this.getIndexFile(name), JSON.stringify(segment));
+    } catch (e) {
+      console.error('Failed to save request index:', e);
+    }
+  }
+
+  private dropSegment(name: string): void {
+    this.segments.get(name)?.entries.forEach(entry => {
+      if (this.entries.get(entry.id) === entry) {
+        this.entries.delete(entry.id);
+      }
+    });
+    this.segments.delete(name);
+  }
+
+  private deleteSegment(name: string): void {
+    [join(this.dir, `${name}.jsonl`), this.getIndexFile(name)].forEach(file => {
+      try {
+        if (existsSync(file)) unlinkSync(file);
+      } catch (e) {
+        console.error(`Failed to delete ${file}:`, e);
+      }
+    });
+    this.dropSegment(name);
+  }
+
+  /**
+   * Delete the segments that fall outside `retentionDays` or `maxSizeMB`.
+   * Nothing is deleted unless one of them is set, and the segment of today
+   * is always kept.
+   */
+  enforceRetention(): void {
+    const today = formatDate(new Date());
+    let names = this.listSegments().filter(name => name < today);
+
+    const { retentionDays } = this.config;
+    if (retentionDays && retentionDays > 0) {
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() - retentionDays + 1);
+      const oldest = formatDate(cutoff);
+      names.filter(name => name < oldest).forEach(name => this.deleteSegment(name));
+      names = names.filter(name => name >= oldest);
+    }
+
+    if (this.config.maxSizeMB) {
+      const maxBytes = this.config.maxSizeMB * 1024 * 1024;
+      const sizeOf = (name: string) => {
+        try {
+          return statSync(join(this.dir, `${name}.jsonl`)).size;
+        } catch {
+          return 0;
+        }
+      };
+      let total = [...names, today].reduce((sum, name) => sum + sizeOf(name), 0);
+      while (total > maxBytes && names.length) {
+        const name = names.shift()!;
+        total -= sizeOf(name);
+        this.deleteSegment(name);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const requestStore = new RequestStore();
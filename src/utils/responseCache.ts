@@ -0,0 +1,211 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { HOME_DIR } from '../constants';
+import { hashValue } from './hash';
+import { SSEParserTransform } from './SSEParser.transform';
+import { SSESerializerTransform } from './SSESerializer.transform';
+
+export interface ResponseCacheConfig {
+  enabled?: boolean;
+  ttlMs?: number;
+  maxSizeMB?: number;
+  // Router scenarios whose responses may be cached; "*" allows all
+  scenarios?: string[];
+}
+
+export interface CacheEntry {
+  key: string;
+  createdAt: number;
+  expiresAt: number;
+  stream: boolean;
+  // Parsed SSE events for streamed responses
+  events?: any[];
+  // Raw JSON body for non-streamed responses
+  body?: string;
+}
+
+interface CacheIndexEntry {
+  size: number;
+  expiresAt: number;
+  lastUsed: number;
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_SIZE_MB = 100;
+const DEFAULT_SCENARIOS = ['background'];
+
+// Per-request fields that do not change the response
+const IGNORED_FIELDS = ['metadata'];
+
+/**
+ * Opt-in cache of upstream responses, keyed on the routed request body.
+ * Entries are stored as one JSON file each under `HOME_DIR/cache/responses`
+ * and evicted least recently used first once `maxSizeMB` is exceeded.
+ */
+class ResponseCache {
+  private index: Map<string, CacheIndexEntry> = new Map();
+  private cacheDir = join(HOME_DIR, 'cache', 'responses');
+  private enabled = false;
+  private ttlMs = DEFAULT_TTL_MS;
+  private maxSizeBytes = DEFAULT_MAX_SIZE_MB * 1024 * 1024;
+  private scenarios = DEFAULT_SCENARIOS;
+  private loaded = false;
+
+  configure(config: ResponseCacheConfig = {}): void {
+    this.enabled = config.enabled === true;
+    this.ttlMs = config.ttlMs || DEFAULT_TTL_MS;
+    this.maxSizeBytes = (config.maxSizeMB || DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+    this.scenarios = Array.isArray(config.scenarios) ? config.scenarios : DEFAULT_SCENARIOS;
+    if (this.enabled && !this.loaded) {
+      this.loadIndex();
+    }
+  }
+
+  private loadIndex(): void {
+    this.loaded = true;
+    if (!existsSync(this.cacheDir)) {
+      mkdirSync(this.cacheDir, { recursive: true });
+      return;
+    }
+    for (const file of readdirSync(this.cacheDir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const content = readFileSync(join(this.cacheDir, file), 'utf-8');
+        const entry: CacheEntry = JSON.parse(content);
+        this.index.set(entry.key, {
+          size: Buffer.byteLength(content),
+          expiresAt: entry.expiresAt,
+          lastUsed: entry.createdAt
+        });
+      } catch (e) {
+        console.error(`Failed to load cache entry ${file}:`, e);
+      }
+    }
+  }
+
+  /**
+   * Whether the routed request may be answered from, and stored in, the cache.
+   */
+  isCacheable(req: any): boolean {
+    // Replays and shadow requests measure the model, not the cache
+    if (!this.enabled || req.agents || ['replay', 'shadow'].includes(req.routeScenario)) return false;
+    return this.scenarios.includes('*') || this.scenarios.includes(req.routeScenario);
+  }
+
+  getKey(body: any): string {
+    const normalized = { ...body };
+    IGNORED_FIELDS.forEach(field => delete normalized[field]);
+    normalized.stream = normalized.stream === true;
+    return hashValue(normalized);
+  }
+
+  private getPath(key: string): string {
+    return join(this.cacheDir, `${key}.json`);
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const indexEntry = this.index.get(key);
+    if (!indexEntry) return undefined;
+    if (indexEntry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+    try {
+      const entry: CacheEntry = JSON.parse(readFileSync(this.getPath(key), 'utf-8'));
+      indexEntry.lastUsed = Date.now();
+      return entry;
+    } catch {
+      this.index.delete(key);
+      return undefined;
+    }
+  }
+
+  set(key: string, response: { stream: boolean; events?: any[]; body?: string }): void {
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key,
+      createdAt: now,
+      expiresAt: now + this.ttlMs,
+      ...response
+    };
+    try {
+      if (!existsSync(this.cacheDir)) {
+        mkdirSync(this.cacheDir, { recursive: true });
+      }
+      const content = JSON.stringify(entry);
+      writeFileSync(this.getPath(key), content);
+      this.index.set(key, { size: Buffer.byteLength(content), expiresAt: entry.expiresAt, lastUsed: now });
+      this.evict();
+    } catch (e) {
+      console.error('Failed to write cache entry:', e);
+    }
+  }
+
+  /**
+   * Collect a streamed response and store it once it completed successfully.
+   */
+  async storeStream(key: string, stream: ReadableStream): Promise<void> {
+    const events: any[] = [];
+    let completed = false;
+    const reader = stream.pipeThrough(new SSEParserTransform()).getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value.event === 'error' || value.data?.type === 'error') return;
+        if (value.event === 'message_stop' || value.data?.type === 'message_stop') completed = true;
+        events.push(value);
+      }
+    } catch {
+      return;
+    } finally {
+      reader.releaseLock();
+    }
+    if (completed) {
+      this.set(key, { stream: true, events });
+    }
+  }
+
+  /**
+   * Rebuild the response body of a cache entry. Streams are re-serialized
+   * event by event, as they were received from upstream.
+   */
+  replay(entry: CacheEntry): ReadableStream | string {
+    if (!entry.stream) {
+      return entry.body || '';
+    }
+    const events = entry.events || [];
+    return new ReadableStream({
+      start(controller) {
+        events.forEach(event => controller.enqueue(event));
+        controller.close();
+      }
+    })
+      .pipeThrough(new SSESerializerTransform())
+      .pipeThrough(new TextEncoderStream());
+  }
+
+  delete(key: string): void {
+    this.index.delete(key);
+    try {
+      unlinkSync(this.getPath(key));
+    } catch {}
+  }
+
+  private evict(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.index) {
+      if (entry.expiresAt <= now) this.delete(key);
+    }
+    let totalSize = Array.from(this.index.values()).reduce((sum, entry) => sum + entry.size, 0);
+    const byLastUse = Array.from(this.index.entries()).sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+    for (const [key, entry] of byLastUse) {
+      if (totalSize <= this.maxSizeBytes) break;
+      this.delete(key);
+      totalSize -= entry.size;
+    }
+  }
+}
+
+// Export singleton instance
+export const responseCache = new ResponseCache();
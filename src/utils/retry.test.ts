@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./monitoring', () => ({
+  monitoringService: { recordRetry: vi.fn() }
+}));
+
+import { parseRetryDelay, retryService } from './retry';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+describe('parseRetryDelay', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const delayOf = (headers: Record<string, string>) => parseRetryDelay(new Headers(headers));
+
+  it('reads Retry-After in seconds or as an HTTP date', () => {
+    expect(delayOf({ 'retry-after': '2' })).toBe(2000);
+    expect(delayOf({ 'retry-after': '0.5' })).toBe(500);
+    expect(delayOf({ 'retry-after': new Date(NOW + 3000).toUTCString() })).toBe(3000);
+  });
+
+  it('reads x-ratelimit-reset as seconds, epoch seconds or a duration', () => {
+    expect(delayOf({ 'x-ratelimit-reset': '4' })).toBe(4000);
+    expect(delayOf({ 'x-ratelimit-reset': String(NOW / 1000 + 5) })).toBe(5000);
+    expect(delayOf({ 'x-ratelimit-reset': '1m30s' })).toBe(90000);
+    expect(delayOf({ 'x-ratelimit-reset': '250ms' })).toBe(250);
+    expect(delayOf({ 'x-ratelimit-reset': '1h' })).toBe(3600000);
+  });
+
+  it('prefers Retry-After and never returns a negative delay', () => {
+    expect(delayOf({ 'retry-after': '1', 'x-ratelimit-reset': '9' })).toBe(1000);
+    expect(delayOf({ 'retry-after': new Date(NOW - 3000).toUTCString() })).toBe(0);
+  });
+
+  it('ignores missing and unreadable values', () => {
+    expect(delayOf({})).toBeUndefined();
+    expect(delayOf({ 'retry-after': 'soon' })).toBeUndefined();
+  });
+});
+
+describe('retryService', () => {
+  it('prefers the provider policy over the top-level one', () => {
+    retryService.configure({ maxAttempts: 2, initialDelayMs: 10 }, [
+      { name: 'a', api_base_url: 'https://a.example/v1', retry: { maxAttempts: 5 } },
+      { name: 'b', api_base_url: 'https://b.example/v1' }
+    ]);
+    expect(retryService.getPolicy('a')).toMatchObject({ maxAttempts: 5, initialDelayMs: 10, statuses: [429, 529] });
+    expect(retryService.getPolicy('b')).toMatchObject({ maxAttempts: 2, initialDelayMs: 10 });
+  });
+
+  it('does not retry without a policy or with a single attempt', () => {
+    retryService.configure(undefined, [
+      { name: 'a', api_base_url: 'https://a.example/v1', retry: { maxAttempts: 1 } }
+    ]);
+    expect(retryService.getPolicy('a')).toBeUndefined();
+    expect(retryService.getPolicy('b')).toBeUndefined();
+  });
+
+  it('backs off exponentially up to maxDelayMs', () => {
+    const policy = {
+      maxAttempts: 5,
+      initialDelayMs: 100,
+      maxDelayMs: 300,
+      multiplier: 2,
+      jitter: false,
+      statuses: [429]
+    };
+    const delays = [1, 2, 3].map(attempt => retryService.getDelay(policy, attempt, new Headers()));
+    expect(delays).toEqual([
+      { delayMs: 100, fromHeader: false },
+      { delayMs: 200, fromHeader: false },
+      { delayMs: 300, fromHeader: false }
+    ]);
+
+    const jittered = retryService.getDelay({ ...policy, jitter: true }, 2, new Headers())!;
+    expect(jittered.delayMs).toBeGreaterThanOrEqual(100);
+    expect(jittered.delayMs).toBeLessThanOrEqual(200);
+  });
+
+  it('waits as told by the upstream unless it is longer than maxDelayMs', () => {
+    const policy = {
+      maxAttempts: 3,
+      initialDelayMs: 100,
+      maxDelayMs: 5000,
+      multiplier: 2,
+      jitter: false,
+      statuses: [429]
+    };
+    expect(retryService.getDelay(policy, 1, new Headers({ 'retry-after': '2' }))).toEqual({
+      delayMs: 2000,
+      fromHeader: true
+    });
+    expect(retryService.getDelay(policy, 1, new Headers({ 'retry-after': '60' }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,206 @@
+// Retries of upstream calls that failed with a transient status, before the
+// error reaches the failover chain or the client.
+import { AsyncLocalStorage } from 'async_hooks';
+import { monitoringService } from './monitoring';
+import { FetchHandler, getRequestUrl, upstreamFetch } from './upstreamFetch';
+
+export interface RetryPolicy {
+  // Attempts of an upstream call, the first one included
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  // Longest wait between attempts; a longer `Retry-After` ends the retries
+  maxDelayMs?: number;
+  multiplier?: number;
+  // Randomize the backoff between half and all of its value
+  jitter?: boolean;
+  // Upstream statuses that are retried
+  statuses?: number[];
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  provider?: string;
+  model?: string;
+  status: number;
+  error?: string;
+  // Wait before the next attempt
+  delayMs: number;
+  // Whether the wait came from a `Retry-After` or `x-ratelimit-reset` header
+  fromHeader?: boolean;
+  timestamp: Date;
+}
+
+interface RetryContext {
+  req: any;
+  // Monitoring id of the request the attempts are logged on
+  requestId?: string;
+}
+
+const DEFAULT_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+  multiplier: 2,
+  jitter: true,
+  statuses: [429, 529]
+};
+
+// `x-ratelimit-reset` values above this are epoch seconds rather than a delay
+const EPOCH_SECONDS = 1e9;
+const DURATION_PATTERN = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/;
+
+/**
+ * Milliseconds to wait as told by a `Retry-After` header (seconds or an HTTP
+ * date) or an `x-ratelimit-reset` header (seconds, epoch seconds, a duration
+ * such as `1m30s`, or a date).
+ */
+export const parseRetryDelay = (headers: Headers): number | undefined => {
+  const parse = (value: string | null): number | undefined => {
+    const text = value?.trim();
+    if (!text) return undefined;
+    if (/^\d+(\.\d+)?$/.test(text)) {
+      const seconds = parseFloat(text);
+      return seconds > EPOCH_SECONDS ? seconds * 1000 - Date.now() : seconds * 1000;
+    }
+    const duration = text.match(DURATION_PATTERN);
+    if (duration && duration.slice(1).some(Boolean)) {
+      const [hours, minutes, seconds, ms] = duration.slice(1).map(part => parseFloat(part || '0'));
+      return ((hours * 60 + minutes) * 60 + seconds) * 1000 + ms;
+    }
+    const date = Date.parse(text);
+    return isNaN(date) ? undefined : date - Date.now();
+  };
+  const delay = parse(headers.get('retry-after')) ?? parse(headers.get('x-ratelimit-reset'));
+  return delay === undefined ? undefined : Math.max(0, Math.round(delay));
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+
+/**
+ * Retries upstream calls answered with a transient status under the policy of
+ * their provider. Only calls that have not started streaming are retried: a
+ * retried call never returned a body to the client. The last failure is
+ * passed on, so failover takes over once the attempts are spent.
+ */
+class RetryService {
+  private defaults?: RetryPolicy;
+  private policies: Map<string, RetryPolicy> = new Map();
+  private providerHosts: Set<string> = new Set();
+  private storage = new AsyncLocalStorage<RetryContext>();
+
+  configure(defaults: RetryPolicy | undefined, providers: any[] = []): void {
+    this.defaults = defaults;
+    this.policies.clear();
+    this.providerHosts = new Set();
+    providers.forEach((provider: any) => {
+      if (provider.retry) {
+        this.policies.set(provider.name, provider.retry);
+      }
+      try {
+        this.providerHosts.add(new URL(provider.api_base_url).host);
+      } catch {}
+    });
+
+    if (this.isEnabled()) {
+      upstreamFetch.use('retry', (input, init, next) => this.intercept(input, init, next));
+    }
+  }
+
+  isEnabled(): boolean {
+    return !!this.defaults || this.policies.size > 0;
+  }
+
+  /**
+   * The policy of a provider: its `retry` over the top-level `Retry`, or
+   * undefined when its calls are not retried.
+   */
+  getPolicy(provider?: string): Required<RetryPolicy> | undefined {
+    const policy = (provider && this.policies.get(provider)) || this.defaults;
+    if (!policy) return undefined;
+    const merged = { ...DEFAULT_POLICY, ...this.defaults, ...policy };
+    return merged.maxAttempts > 1 ? merged : undefined;
+  }
+
+  /**
+   * Wait before the next attempt after `attempt` failed. The upstream's own
+   * estimate wins over the backoff; undefined when it exceeds `maxDelayMs`.
+   */
+  getDelay(policy: Required<RetryPolicy>, attempt: number, headers: Headers): { delayMs: number; fromHeader: boolean } | undefined {
+    const told = parseRetryDelay(headers);
+    if (told !== undefined) {
+      return told <= policy.maxDelayMs ? { delayMs: told, fromHeader: true } : undefined;
+    }
+    const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1));
+    const delayMs = policy.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+    return { delayMs: Math.round(delayMs), fromHeader: false };
+  }
+
+  /**
+   * Run the rest of a request in its context, so the upstream call it makes
+   * is retried under its provider's policy and logged on `requestId`.
+   */
+  run(req: any, requestId: string | undefined, fn: () => void): void {
+    this.storage.run({ req, requestId }, fn);
+  }
+
+  private async intercept(input: any, init: any, next: FetchHandler): Promise<Response> {
+    const context = this.storage.getStore();
+    const url = getRequestUrl(input);
+    const policy = context && url && this.isProviderCall(url, init) ? this.getPolicy(context.req.provider) : undefined;
+    if (!policy) {
+      return next(input, init);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await next(input, init);
+      if (response.ok || !policy.statuses.includes(response.status) || attempt >= policy.maxAttempts) {
+        return response;
+      }
+      const delay = this.getDelay(policy, attempt, response.headers);
+      if (!delay || init?.signal?.aborted) {
+        return response;
+      }
+
+      const error = (await response.text().catch(() => '')).slice(0, 500);
+      if (context!.requestId) {
+        monitoringService.recordRetry(context!.requestId, {
+          attempt,
+          provider: context!.req.provider,
+          model: context!.req.body?.model,
+          status: response.status,
+          error: error || undefined,
+          ...delay,
+          timestamp: new Date()
+        });
+      }
+      context!.req.log?.warn(
+        `${context!.req.provider} answered ${response.status}, retrying in ${delay.delayMs}ms (attempt ${attempt + 1}/${policy.maxAttempts})`
+      );
+      // A request closed while waiting ends with the abort of the next attempt
+      await sleep(delay.delayMs, init?.signal);
+    }
+  }
+
+  private isProviderCall(url: string, init?: any): boolean {
+    if (init?.method !== 'POST' || typeof init?.body !== 'string') {
+      return false;
+    }
+    try {
+      return this.providerHosts.has(new URL(url).host);
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const retryService = new RetryService();
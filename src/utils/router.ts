@@ -3,37 +3,70 @@ import {
   MessageParam,
   Tool,
 } from "@anthropic-ai/sdk/resources/messages";
-import { get_encoding } from "tiktoken";
+import { Tiktoken } from "tiktoken";
 import { sessionUsageCache, Usage } from "./cache";
 import { readFile } from 'fs/promises'
+import {
+  getPrimaryModel,
+  getRouteCandidates,
+  getSplitArmName,
+  isSplitTarget,
+  pickSplitArm,
+  SplitTarget,
+} from "./fallback";
+import { providerHealthService } from "./providerHealth";
+import { budgetService } from "./budget";
+import { getSessionId } from "./monitoring";
+import { REPLAY_HEADER } from "./replay";
+import { SHADOW_HEADER } from "./shadow";
+import { findMatchingRule, RuleEvaluation } from "./routingRules";
+import { DEFAULT_TOKENIZER, getEncoder, getModelCapabilities, resolveModelAlias } from "./modelCapabilities";
+
+// Images are resized upstream to about 1.15 megapixels, which costs up to
+// roughly 1600 tokens; the dimensions are unknown here so assume the maximum
+const IMAGE_TOKEN_ESTIMATE = 1600;
 
-const enc = get_encoding("cl100k_base");
+const countContentTokens = (enc: Tiktoken, content: any): number => {
+  if (typeof content === "string") {
+    return enc.encode(content).length;
+  }
+  if (!Array.isArray(content)) return 0;
+  let tokenCount = 0;
+  content.forEach((contentPart: any) => {
+    if (contentPart.type === "text") {
+      tokenCount += enc.encode(contentPart.text).length;
+    } else if (contentPart.type === "image") {
+      tokenCount += IMAGE_TOKEN_ESTIMATE;
+    } else if (contentPart.type === "thinking") {
+      tokenCount += enc.encode(contentPart.thinking || "").length;
+    } else if (contentPart.type === "redacted_thinking") {
+      tokenCount += enc.encode(contentPart.data || "").length;
+    } else if (contentPart.type === "tool_use") {
+      tokenCount += enc.encode(JSON.stringify(contentPart.input)).length;
+    } else if (contentPart.type === "tool_result") {
+      tokenCount += Array.isArray(contentPart.content)
+        ? countContentTokens(enc, contentPart.content)
+        : enc.encode(
+            typeof contentPart.content === "string"
+              ? contentPart.content
+              : JSON.stringify(contentPart.content)
+          ).length;
+    }
+  });
+  return tokenCount;
+};
 
-const calculateTokenCount = (
+export const calculateTokenCount = (
   messages: MessageParam[],
   system: any,
-  tools: Tool[]
+  tools: Tool[],
+  tokenizer?: string
 ) => {
+  const enc = getEncoder(tokenizer);
   let tokenCount = 0;
   if (Array.isArray(messages)) {
     messages.forEach((message) => {
-      if (typeof message.content === "string") {
-        tokenCount += enc.encode(message.content).length;
-      } else if (Array.isArray(message.content)) {
-        message.content.forEach((contentPart: any) => {
-          if (contentPart.type === "text") {
-            tokenCount += enc.encode(contentPart.text).length;
-          } else if (contentPart.type === "tool_use") {
-            tokenCount += enc.encode(JSON.stringify(contentPart.input)).length;
-          } else if (contentPart.type === "tool_result") {
-            tokenCount += enc.encode(
-              typeof contentPart.content === "string"
-                ? contentPart.content
-                : JSON.stringify(contentPart.content)
-            ).length;
-          }
-        });
-      }
+      tokenCount += countContentTokens(enc, message.content);
     });
   }
   if (typeof system === "string") {
@@ -63,12 +96,78 @@ const calculateTokenCount = (
   return tokenCount;
 };
 
-const getUseModel = async (
+/**
+ * Estimate the request size with the tokenizer of the given model, reusing
+ * the default count when the model has no tokenizer of its own.
+ */
+const countTokensForModel = (
+  req: any,
+  config: any,
+  model: string | undefined,
+  tokenCount: number
+): number => {
+  const tokenizer = getModelCapabilities(config, model)?.tokenizer;
+  if (!tokenizer || tokenizer === DEFAULT_TOKENIZER) return tokenCount;
+  return calculateTokenCount(
+    req.body.messages,
+    req.body.system,
+    req.body.tools,
+    tokenizer
+  );
+};
+
+/**
+ * Count the input tokens of a Messages API body with the tokenizer of the
+ * requested model, as `/v1/messages/count_tokens` does.
+ */
+export const countMessageTokens = (body: any, config: any): number => {
+  return calculateTokenCount(
+    body.messages,
+    body.system,
+    body.tools,
+    getModelCapabilities(config, resolveModelAlias(config, body.model) || body.model)?.tokenizer
+  );
+};
+
+export interface RouteDecision {
+  scenario: string;
+  model: string | string[] | SplitTarget;
+  // Arm of a split target the request was assigned to
+  arm?: string;
+}
+
+/**
+ * One step of the routing decision, in the order it was evaluated.
+ */
+export interface RouteCheck {
+  check: string;
+  passed: boolean;
+  reason: string;
+}
+
+export interface RouteExplanation {
+  scenario: string;
+  model: string;
+  candidates: string[];
+  arm?: string;
+  // Candidates dropped because their provider circuit is open
+  skipped: string[];
+  tokenCount: number;
+  sessionId?: string;
+  checks: RouteCheck[];
+}
+
+const selectScenario = async (
   req: any,
   tokenCount: number,
   config: any,
-  lastUsage?: Usage | undefined
-) => {
+  lastUsage: Usage | undefined,
+  checks: RouteCheck[]
+): Promise<RouteDecision> => {
+  const record = (check: string, passed: boolean, reason: string) => {
+    checks.push({ check, passed, reason });
+  };
+
   // Check for environment-based model override first
   if (config.OVERRIDE_MODEL || process.env.CCR_MODEL_PREFERENCE) {
     const overrideModel = config.OVERRIDE_MODEL || process.env.CCR_MODEL_PREFERENCE;
@@ -91,12 +190,15 @@ const getUseModel = async (
 
         if (finalModel) {
           req.log.info(`Validated override: ${finalProvider.name},${finalModel}`);
-          return `${finalProvider.name},${finalModel}`;
+          record("override", true, `override model '${overrideModel}' is configured`);
+          return { scenario: "override", model: `${finalProvider.name},${finalModel}` };
         } else {
           req.log.warn(`Override model '${model}' not found in provider '${provider}', falling back to default routing`);
+          record("override", false, `override model '${model}' not found in provider '${provider}'`);
         }
       } else {
         req.log.warn(`Override provider '${provider}' not found, falling back to default routing`);
+        record("override", false, `override provider '${provider}' not found`);
       }
     } else {
       // Just a model name, try to find it in any provider
@@ -106,13 +208,23 @@ const getUseModel = async (
         );
         if (foundModel) {
           req.log.info(`Found override model in provider ${provider.name}: ${provider.name},${foundModel}`);
-          return `${provider.name},${foundModel}`;
+          record("override", true, `override model '${overrideModel}' found in provider '${provider.name}'`);
+          return { scenario: "override", model: `${provider.name},${foundModel}` };
         }
       }
       req.log.warn(`Override model '${overrideModel}' not found in any provider, falling back to default routing`);
+      record("override", false, `override model '${overrideModel}' not found in any provider`);
     }
+  } else {
+    record("override", false, "no OVERRIDE_MODEL or CCR_MODEL_PREFERENCE set");
   }
 
+  // An alias stands for the `provider,model` it names
+  const aliasTarget = resolveModelAlias(config, req.body.model);
+  if (aliasTarget) {
+    record("explicit", true, `requested model '${req.body.model}' is an alias for ${aliasTarget}`);
+    return { scenario: "explicit", model: aliasTarget };
+  }
   if (req.body.model.includes(",")) {
     const [provider, model] = req.body.model.split(",");
     const finalProvider = config.Providers.find(
@@ -121,28 +233,75 @@ const getUseModel = async (
     const finalModel = finalProvider?.models?.find(
         (m: any) => m.toLowerCase() === model
     );
+    record("explicit", true, `requested model '${req.body.model}' names a provider`);
     if (finalProvider && finalModel) {
-      return `${finalProvider.name},${finalModel}`;
+      return { scenario: "explicit", model: `${finalProvider.name},${finalModel}` };
     }
-    return req.body.model;
+    return { scenario: "explicit", model: req.body.model };
+  }
+  record("explicit", false, `requested model '${req.body.model}' has no provider prefix`);
+
+  // Declarative rules from config take precedence over the built-in scenarios
+  const evaluations: RuleEvaluation[] = [];
+  const matchedRule = findMatchingRule(req, config.Router?.rules, tokenCount, evaluations);
+  evaluations.forEach((evaluation) => {
+    record(
+      `rule:${evaluation.rule}`,
+      evaluation.matched,
+      evaluation.skipped ||
+        (evaluation.conditions.length
+          ? evaluation.conditions.map((condition) => condition.reason).join("; ")
+          : "rule has no conditions")
+    );
+  });
+  if (matchedRule) {
+    req.log.info(`Using model from routing rule '${matchedRule.name}'`);
+    return { scenario: `rule:${matchedRule.name}`, model: matchedRule.rule.model };
   }
 
-  // if tokenCount is greater than the configured threshold, use the long context model
-  const longContextThreshold = config.Router.longContextThreshold || 60000;
+  // Use the long context model when the request exceeds the configured
+  // threshold, or does not fit the default model's context window when no
+  // threshold is set
+  const defaultModel = getPrimaryModel(config.Router.default);
+  const configuredThreshold = config.Router.longContextThreshold;
+  const contextWindow = configuredThreshold
+    ? undefined
+    : getModelCapabilities(config, defaultModel)?.contextWindow;
+  const longContextThreshold = configuredThreshold || contextWindow || 60000;
+  const limit = contextWindow
+    ? `context window ${contextWindow} of ${defaultModel}`
+    : `threshold ${longContextThreshold}`;
+  const modelTokenCount = contextWindow
+    ? countTokensForModel(req, config, defaultModel, tokenCount)
+    : tokenCount;
   const lastUsageThreshold =
     lastUsage &&
     lastUsage.input_tokens > longContextThreshold &&
-    tokenCount > 20000;
-  const tokenCountThreshold = tokenCount > longContextThreshold;
+    modelTokenCount > 20000;
+  const tokenCountThreshold = modelTokenCount > longContextThreshold;
   if (
     (lastUsageThreshold || tokenCountThreshold) &&
     config.Router.longContext
   ) {
         req.log.info(
-      `Using long context model due to token count: ${tokenCount}, threshold: ${longContextThreshold}`
+      `Using long context model due to token count: ${modelTokenCount}, ${limit}`
+    );
+    record(
+      "longContext",
+      true,
+      tokenCountThreshold
+        ? `token count ${modelTokenCount} > ${limit}`
+        : `last usage ${lastUsage!.input_tokens} input tokens > ${limit}`
     );
-    return config.Router.longContext;
+    return { scenario: "longContext", model: config.Router.longContext };
   }
+  record(
+    "longContext",
+    false,
+    config.Router.longContext
+      ? `token count ${modelTokenCount} <= ${limit}`
+      : "Router.longContext is not set"
+  );
   if (
     req.body?.system?.length > 1 &&
     req.body?.system[1]?.text?.startsWith("<CCR-SUBAGENT-MODEL>")
@@ -155,47 +314,285 @@ const getUseModel = async (
         `<CCR-SUBAGENT-MODEL>${model[1]}</CCR-SUBAGENT-MODEL>`,
         ""
       );
-      return model[1];
+      record("subagent", true, `system prompt selects subagent model '${model[1]}'`);
+      return { scenario: "subagent", model: model[1] };
     }
   }
+  record("subagent", false, "no <CCR-SUBAGENT-MODEL> tag in the system prompt");
   // If the model is claude-3-5-haiku, use the background model
   if (
     req.body.model?.startsWith("claude-3-5-haiku") &&
     config.Router.background
   ) {
     req.log.info(`Using background model for ${req.body.model}`);
-    return config.Router.background;
+    record("background", true, `requested model '${req.body.model}' is a background model`);
+    return { scenario: "background", model: config.Router.background };
   }
+  record(
+    "background",
+    false,
+    config.Router.background
+      ? `requested model '${req.body.model}' is not claude-3-5-haiku`
+      : "Router.background is not set"
+  );
   // if exits thinking, use the think model
   if (req.body.thinking && config.Router.think) {
     req.log.info(`Using think model for ${req.body.thinking}`);
-    return config.Router.think;
+    record("think", true, "thinking is enabled");
+    return { scenario: "think", model: config.Router.think };
   }
+  record(
+    "think",
+    false,
+    config.Router.think ? "thinking is not enabled" : "Router.think is not set"
+  );
   if (
     Array.isArray(req.body.tools) &&
     req.body.tools.some((tool: any) => tool.type?.startsWith("web_search")) &&
     config.Router.webSearch
   ) {
-    return config.Router.webSearch;
+    record("webSearch", true, "web_search tool is present");
+    return { scenario: "webSearch", model: config.Router.webSearch };
   }
-  return config.Router!.default;
+  record(
+    "webSearch",
+    false,
+    config.Router.webSearch ? "no web_search tool" : "Router.webSearch is not set"
+  );
+  record("default", true, "no other scenario matched");
+  return { scenario: "default", model: config.Router!.default };
 };
 
-export const router = async (req: any, _res: any, context: any) => {
-  const { config, event } = context;
+// Scenarios that are either pinned by the user or already sized for the request
+const WINDOW_EXEMPT_SCENARIOS = ["override", "explicit", "longContext", "default"];
+
+/**
+ * A scenario model may have a smaller context window than the default model.
+ * When the request does not fit, escalate to the long context model instead.
+ */
+const fitContextWindow = (
+  req: any,
+  decision: RouteDecision,
+  tokenCount: number,
+  config: any,
+  checks: RouteCheck[]
+): RouteDecision => {
+  if (WINDOW_EXEMPT_SCENARIOS.includes(decision.scenario)) return decision;
+  const model = getPrimaryModel(decision.model);
+  const contextWindow = getModelCapabilities(config, model)?.contextWindow;
+  if (!contextWindow) return decision;
+
+  const modelTokenCount = countTokensForModel(req, config, model, tokenCount);
+  const fits = modelTokenCount <= contextWindow;
+  if (fits || !config.Router.longContext) {
+    checks.push({
+      check: "contextWindow",
+      passed: fits,
+      reason: `token count ${modelTokenCount} ${fits ? "<=" : ">"} context window ${contextWindow} of ${model}${fits ? "" : ", but Router.longContext is not set"}`,
+    });
+    return decision;
+  }
+  req.log.info(
+    `Request with ${modelTokenCount} tokens does not fit ${model} (${contextWindow}), using long context model`
+  );
+  checks.push({
+    check: "contextWindow",
+    passed: false,
+    reason: `token count ${modelTokenCount} > context window ${contextWindow} of ${model}, escalating to longContext`,
+  });
+  return { scenario: "longContext", model: config.Router.longContext };
+};
+
+/**
+ * Settle a split target on one of its arms. Arms are sticky per session, so
+ * a conversation does not switch models mid-task.
+ */
+const resolveSplit = (
+  req: any,
+  decision: RouteDecision,
+  checks?: RouteCheck[]
+): RouteDecision => {
+  if (!isSplitTarget(decision.model)) return decision;
+  const arm = pickSplitArm(decision.model, req.sessionId);
+  if (!arm) {
+    checks?.push({ check: "split", passed: false, reason: "split has no arm with a weight and a model" });
+    return decision;
+  }
+  const name = getSplitArmName(arm);
+  checks?.push({
+    check: "split",
+    passed: true,
+    reason: req.sessionId
+      ? `session ${req.sessionId} is assigned to arm '${name}'`
+      : `no session id, arm '${name}' picked at random`,
+  });
+  return { scenario: decision.scenario, model: arm.model, arm: name };
+};
+
+const getUseModel = async (
+  req: any,
+  tokenCount: number,
+  config: any,
+  lastUsage?: Usage | undefined,
+  checks: RouteCheck[] = []
+): Promise<RouteDecision> => {
+  const decision = resolveSplit(
+    req,
+    await selectScenario(req, tokenCount, config, lastUsage, checks),
+    checks
+  );
+  // The long context model may be a split target as well
+  return resolveSplit(req, fitContextWindow(req, decision, tokenCount, config, checks), checks);
+};
+
+/**
+ * Expand the chosen Router entry into its ordered candidates. Candidates
+ * whose provider circuit is open are skipped, unless none is left.
+ */
+const resolveCandidates = (decision: RouteDecision) => {
+  const candidates = getRouteCandidates(decision.model);
+  const available = candidates.filter((candidate) =>
+    providerHealthService.isAvailable(candidate.split(",")[0])
+  );
+  if (available.length && available.length < candidates.length) {
+    return {
+      candidates: available,
+      skipped: candidates.filter((candidate) => !available.includes(candidate)),
+    };
+  }
+  return { candidates, skipped: [] as string[] };
+};
+
+/**
+ * The first candidate is sent upstream; the rest are kept on the request for
+ * failover.
+ */
+const applyRouteDecision = (req: any, decision: RouteDecision) => {
+  const { candidates, skipped } = resolveCandidates(decision);
+  if (skipped.length) {
+    req.log.warn(
+      `Skipping providers with open circuit: ${skipped.join(", ")}`
+    );
+  }
+  if (candidates.length) {
+    providerHealthService.acquire(candidates[0].split(",")[0]);
+  }
+  req.routeScenario = decision.scenario;
+  req.routeArm = decision.arm;
+  req.routeCandidates = candidates;
+  req.routeAttempt = 0;
+  req.body.model = candidates[0] ?? decision.model;
+  if (candidates.length > 1) {
+    req.log.info(
+      `Route ${decision.scenario}: ${candidates.join(" -> ")}`
+    );
+  }
+};
+
+/**
+ * Cap `max_tokens` at the routed model's max output so providers with a
+ * smaller limit do not reject the request.
+ */
+const clampMaxTokens = (req: any, config: any) => {
+  const maxOutput = getModelCapabilities(config, req.body.model)?.maxOutput;
+  if (maxOutput && req.body.max_tokens > maxOutput) {
+    req.log.info(
+      `Capping max_tokens ${req.body.max_tokens} to ${maxOutput} for ${req.body.model}`
+    );
+    req.body.max_tokens = maxOutput;
+  }
+};
+
+const prepareRequest = async (req: any, config: any) => {
   // Parse sessionId from metadata.user_id
-  if (req.body.metadata?.user_id) {
-    const parts = req.body.metadata.user_id.split("_session_");
-    if (parts.length > 1) {
-      req.sessionId = parts[1];
-    }
+  const sessionId = getSessionId(req.body);
+  if (sessionId) {
+    req.sessionId = sessionId;
   }
-  const lastMessageUsage = sessionUsageCache.get(req.sessionId);
-  const { messages, system = [], tools }: MessageCreateParamsBase = req.body;
+  const { system = [] }: MessageCreateParamsBase = req.body;
   if (config.REWRITE_SYSTEM_PROMPT && system.length > 1 && system[1]?.text?.includes('<env>')) {
     const prompt = await readFile(config.REWRITE_SYSTEM_PROMPT, 'utf-8');
     system[1].text = `${prompt}<env>${system[1].text.split('<env>').pop()}`
   }
+};
+
+const decideRoute = async (
+  req: any,
+  tokenCount: number,
+  context: any,
+  checks?: RouteCheck[]
+): Promise<RouteDecision> => {
+  const { config, event } = context;
+  if (config.CUSTOM_ROUTER_PATH) {
+    try {
+      const customRouter = require(config.CUSTOM_ROUTER_PATH);
+      req.tokenCount = tokenCount; // Pass token count to custom router
+      const model = await customRouter(req, config, {
+        event
+      });
+      if (model) {
+        checks?.push({ check: "custom", passed: true, reason: `custom router returned '${model}'` });
+        return { scenario: "custom", model };
+      }
+      checks?.push({ check: "custom", passed: false, reason: "custom router returned no model" });
+    } catch (e: any) {
+      req.log.error(`failed to load custom router: ${e.message}`);
+      checks?.push({ check: "custom", passed: false, reason: `failed to load custom router: ${e.message}` });
+    }
+  }
+  return getUseModel(
+    req,
+    tokenCount,
+    config,
+    sessionUsageCache.get(req.sessionId),
+    checks
+  );
+};
+
+/**
+ * Switch to `Budgets.downgradeModel` once a soft budget limit is crossed.
+ */
+const applyBudgetDowngrade = (
+  req: any,
+  decision: RouteDecision,
+  checks?: RouteCheck[]
+): RouteDecision => {
+  const model = budgetService.getDowngradeModel();
+  if (!req.budgetDowngrade?.length || !model || !getRouteCandidates(model).length) {
+    if (budgetService.isEnabled()) {
+      checks?.push({
+        check: "budget",
+        passed: false,
+        reason: req.budgetDowngrade?.length
+          ? `soft budget limit crossed (${req.budgetDowngrade.join(", ")}), but Budgets.downgradeModel is not set`
+          : "no soft budget limit crossed",
+      });
+    }
+    return decision;
+  }
+  req.log.info(
+    `Soft budget limit crossed (${req.budgetDowngrade.join(", ")}), downgrading ${decision.scenario} route`
+  );
+  checks?.push({
+    check: "budget",
+    passed: true,
+    reason: `soft budget limit crossed (${req.budgetDowngrade.join(", ")}), downgrading ${decision.scenario} route`,
+  });
+  return { scenario: "budget", model };
+};
+
+export const router = async (req: any, _res: any, context: any) => {
+  const { config } = context;
+  await prepareRequest(req, config);
+  const { messages, system = [], tools }: MessageCreateParamsBase = req.body;
+
+  // Replays and shadow requests name the model to compare and must not be rerouted
+  const pinned = req.headers?.[REPLAY_HEADER] ? "replay" : req.headers?.[SHADOW_HEADER] ? "shadow" : undefined;
+  if (pinned) {
+    applyRouteDecision(req, { scenario: pinned, model: req.body.model });
+    clampMaxTokens(req, config);
+    return;
+  }
 
   try {
     const tokenCount = calculateTokenCount(
@@ -203,26 +600,72 @@ export const router = async (req: any, _res: any, context: any) => {
       system,
       tools as Tool[]
     );
-
-    let model;
-    if (config.CUSTOM_ROUTER_PATH) {
-      try {
-        const customRouter = require(config.CUSTOM_ROUTER_PATH);
-        req.tokenCount = tokenCount; // Pass token count to custom router
-        model = await customRouter(req, config, {
-          event
-        });
-      } catch (e: any) {
-        req.log.error(`failed to load custom router: ${e.message}`);
-      }
-    }
-    if (!model) {
-      model = await getUseModel(req, tokenCount, config, lastMessageUsage);
-    }
-    req.body.model = model;
+    applyRouteDecision(
+      req,
+      resolveSplit(req, applyBudgetDowngrade(req, await decideRoute(req, tokenCount, context)))
+    );
+    clampMaxTokens(req, config);
   } catch (error: any) {
     req.log.error(`Error in router middleware: ${error.message}`);
-    req.body.model = config.Router!.default;
+    applyRouteDecision(req, resolveSplit(req, { scenario: "default", model: config.Router!.default }));
   }
   return;
 };
+
+const silentLogger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  debug: () => {},
+};
+
+/**
+ * Run the routing decision for a Messages API body without sending it
+ * anywhere. Works on a copy of the body and leaves circuit state untouched.
+ * Budgets are checked for the client key `context.apiKeyId`.
+ */
+export const explainRoute = async (
+  body: any,
+  context: any
+): Promise<RouteExplanation> => {
+  const { config } = context;
+  const req: any = {
+    body: JSON.parse(JSON.stringify(body)),
+    headers: {},
+    log: silentLogger,
+    budgetDowngrade: budgetService.check(context.apiKeyId).downgrade,
+  };
+  const checks: RouteCheck[] = [];
+  let tokenCount = 0;
+  let decision: RouteDecision;
+
+  try {
+    await prepareRequest(req, config);
+    const { messages, system = [], tools }: MessageCreateParamsBase = req.body;
+    tokenCount = calculateTokenCount(
+      messages as MessageParam[],
+      system,
+      tools as Tool[]
+    );
+    decision = resolveSplit(
+      req,
+      applyBudgetDowngrade(req, await decideRoute(req, tokenCount, context, checks), checks),
+      checks
+    );
+  } catch (error: any) {
+    checks.push({ check: "error", passed: false, reason: error.message });
+    decision = { scenario: "default", model: config.Router!.default };
+  }
+
+  const { candidates, skipped } = resolveCandidates(decision);
+  return {
+    scenario: decision.scenario,
+    model: candidates[0] ?? String(decision.model ?? ""),
+    candidates,
+    arm: decision.arm,
+    skipped,
+    tokenCount,
+    sessionId: req.sessionId,
+    checks,
+  };
+};
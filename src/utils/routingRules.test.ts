@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { evaluateRule, findMatchingRule, getLastUserMessageText, RuleEvaluation } from "./routingRules";
+
+const request = (body: any, sessionId?: string) => ({ body, sessionId });
+
+describe("getLastUserMessageText", () => {
+  it("returns the text of the last user message that has any", () => {
+    const body = {
+      messages: [
+        { role: "user", content: "first" },
+        { role: "assistant", content: "reply" },
+        { role: "user", content: [{ type: "text", text: "second" }, { type: "image" }] },
+        { role: "user", content: [{ type: "tool_result", content: "ignored" }] },
+      ],
+    };
+    expect(getLastUserMessageText(body)).toBe("second");
+  });
+});
+
+describe("evaluateRule", () => {
+  it("matches when every condition passes", () => {
+    const req = request(
+      {
+        model: "claude-sonnet-4",
+        system: [{ type: "text", text: "You are a reviewer" }],
+        messages: [{ role: "user", content: "Please REVIEW this diff" }],
+        tools: [{ name: "Read" }, { name: "Grep" }],
+        thinking: { type: "enabled" },
+      },
+      "abc-123"
+    );
+    const evaluation = evaluateRule(
+      req,
+      {
+        model: "p,m",
+        match: {
+          lastUserMessage: "review",
+          systemPrompt: "reviewer",
+          tools: ["Read"],
+          minTokens: 100,
+          maxTokens: 200,
+          thinking: true,
+          sessionId: "^abc",
+          model: "sonnet",
+        },
+      },
+      150
+    );
+    expect(evaluation.conditions.map((item) => item.passed)).toEqual(Array(8).fill(true));
+    expect(evaluation.matched).toBe(true);
+    expect(evaluation.rule).toBe("rule #1");
+  });
+
+  it("reports the conditions that fail", () => {
+    const evaluation = evaluateRule(
+      request({ tools: [{ name: "Read" }] }),
+      { name: "tools", model: "p,m", match: { tools: ["Read", "Bash"], maxTokens: 10 } },
+      20
+    );
+    expect(evaluation.matched).toBe(false);
+    expect(evaluation.conditions).toEqual([
+      { condition: "tools", passed: false, reason: "missing tools: Bash" },
+      { condition: "maxTokens", passed: false, reason: "token count 20 > 10" },
+    ]);
+  });
+
+  it("never matches a rule without conditions or with an invalid pattern", () => {
+    expect(evaluateRule(request({}), { model: "p,m", match: {} }, 0).matched).toBe(false);
+    expect(
+      evaluateRule(request({ model: "x" }), { model: "p,m", match: { model: "(" } }, 0).matched
+    ).toBe(false);
+  });
+});
+
+describe("findMatchingRule", () => {
+  it("returns the first matching rule and records the rules it visited", () => {
+    const evaluations: RuleEvaluation[] = [];
+    const rules = [
+      { name: "off", enabled: false, match: { minTokens: 0 }, model: "p,a" },
+      { name: "empty", match: { minTokens: 0 }, model: [] },
+      { name: "small", match: { maxTokens: 10 }, model: "p,b" },
+      { name: "any", match: { minTokens: 0 }, model: "p,c" },
+      { name: "later", match: { minTokens: 0 }, model: "p,d" },
+    ];
+    const found = findMatchingRule(request({}), rules, 50, evaluations);
+    expect(found?.name).toBe("any");
+    expect(found?.rule.model).toBe("p,c");
+    expect(evaluations.map((item) => [item.rule, item.matched, item.skipped])).toEqual([
+      ["off", false, "rule is disabled"],
+      ["empty", false, "rule has no target model"],
+      ["small", false, undefined],
+      ["any", true, undefined],
+    ]);
+  });
+
+  it("returns nothing without rules", () => {
+    expect(findMatchingRule(request({}), undefined, 0)).toBeUndefined();
+  });
+});
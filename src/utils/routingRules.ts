@@ -0,0 +1,203 @@
+// Declarative routing rules from `Router.rules`
+import { getRouteCandidates } from "./fallback";
+
+export interface RoutingRuleMatch {
+  // Regex tested against the text of the last user message
+  lastUserMessage?: string;
+  // Regex tested against the concatenated system prompt
+  systemPrompt?: string;
+  // Tool names that must all be present in the request
+  tools?: string[];
+  minTokens?: number;
+  maxTokens?: number;
+  // Whether the request must (true) or must not (false) enable thinking
+  thinking?: boolean;
+  // Regex tested against the Claude Code session id
+  sessionId?: string;
+  // Regex tested against the model requested by the client
+  model?: string;
+}
+
+export interface RoutingRule {
+  name?: string;
+  enabled?: boolean;
+  match: RoutingRuleMatch;
+  model: string | string[];
+}
+
+export interface RuleConditionResult {
+  condition: keyof RoutingRuleMatch;
+  passed: boolean;
+  reason: string;
+}
+
+export interface RuleEvaluation {
+  rule: string;
+  matched: boolean;
+  conditions: RuleConditionResult[];
+  // Why the rule was not evaluated at all, e.g. it is disabled
+  skipped?: string;
+}
+
+export const testPattern = (pattern: string, value: string): boolean => {
+  try {
+    return new RegExp(pattern, "i").test(value);
+  } catch {
+    return false;
+  }
+};
+
+const extractText = (content: any): string => {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((part: any) => part?.type === "text" && typeof part.text === "string")
+      .map((part: any) => part.text)
+      .join("\n");
+  }
+  return "";
+};
+
+export const getLastUserMessageText = (body: any): string => {
+  const messages = Array.isArray(body?.messages) ? body.messages : [];
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]?.role !== "user") continue;
+    const text = extractText(messages[i].content);
+    if (text) return text;
+  }
+  return "";
+};
+
+export const getSystemPromptText = (body: any): string => {
+  return extractText(body?.system);
+};
+
+export const getRuleName = (rule: RoutingRule, index: number): string => {
+  return rule.name || `rule #${index + 1}`;
+};
+
+/**
+ * Evaluate every condition of a rule. A rule matches when all of its
+ * conditions pass; a rule without conditions never matches.
+ */
+export const evaluateRule = (
+  req: any,
+  rule: RoutingRule,
+  tokenCount: number,
+  index = 0
+): RuleEvaluation => {
+  const match = rule.match || {};
+  const body = req.body || {};
+  const conditions: RuleConditionResult[] = [];
+
+  if (match.lastUserMessage) {
+    const passed = testPattern(match.lastUserMessage, getLastUserMessageText(body));
+    conditions.push({
+      condition: "lastUserMessage",
+      passed,
+      reason: `last user message ${passed ? "matches" : "does not match"} /${match.lastUserMessage}/`,
+    });
+  }
+  if (match.systemPrompt) {
+    const passed = testPattern(match.systemPrompt, getSystemPromptText(body));
+    conditions.push({
+      condition: "systemPrompt",
+      passed,
+      reason: `system prompt ${passed ? "matches" : "does not match"} /${match.systemPrompt}/`,
+    });
+  }
+  const requiredTools = Array.isArray(match.tools)
+    ? match.tools.map((name) => String(name).trim()).filter(Boolean)
+    : [];
+  if (requiredTools.length) {
+    const present = new Set(
+      (Array.isArray(body.tools) ? body.tools : []).map((tool: any) => tool?.name)
+    );
+    const missing = requiredTools.filter((name) => !present.has(name));
+    conditions.push({
+      condition: "tools",
+      passed: missing.length === 0,
+      reason: missing.length
+        ? `missing tools: ${missing.join(", ")}`
+        : `all tools present: ${requiredTools.join(", ")}`,
+    });
+  }
+  if (typeof match.minTokens === "number") {
+    const passed = tokenCount >= match.minTokens;
+    conditions.push({
+      condition: "minTokens",
+      passed,
+      reason: `token count ${tokenCount} ${passed ? ">=" : "<"} ${match.minTokens}`,
+    });
+  }
+  if (typeof match.maxTokens === "number") {
+    const passed = tokenCount <= match.maxTokens;
+    conditions.push({
+      condition: "maxTokens",
+      passed,
+      reason: `token count ${tokenCount} ${passed ? "<=" : ">"} ${match.maxTokens}`,
+    });
+  }
+  if (typeof match.thinking === "boolean") {
+    const hasThinking = !!body.thinking;
+    conditions.push({
+      condition: "thinking",
+      passed: hasThinking === match.thinking,
+      reason: `thinking is ${hasThinking ? "present" : "absent"}`,
+    });
+  }
+  if (match.sessionId) {
+    const passed = testPattern(match.sessionId, req.sessionId || "");
+    conditions.push({
+      condition: "sessionId",
+      passed,
+      reason: `session id '${req.sessionId || ""}' ${passed ? "matches" : "does not match"} /${match.sessionId}/`,
+    });
+  }
+  if (match.model) {
+    const passed = testPattern(match.model, body.model || "");
+    conditions.push({
+      condition: "model",
+      passed,
+      reason: `requested model '${body.model || ""}' ${passed ? "matches" : "does not match"} /${match.model}/`,
+    });
+  }
+
+  return {
+    rule: getRuleName(rule, index),
+    matched: conditions.length > 0 && conditions.every((item) => item.passed),
+    conditions,
+  };
+};
+
+/**
+ * Returns the first enabled rule whose conditions all pass. When
+ * `evaluations` is given, the result for every rule visited is appended to it.
+ */
+export const findMatchingRule = (
+  req: any,
+  rules: RoutingRule[] | undefined,
+  tokenCount: number,
+  evaluations?: RuleEvaluation[]
+): { rule: RoutingRule; name: string } | undefined => {
+  if (!Array.isArray(rules)) return undefined;
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    if (!rule) continue;
+    if (rule.enabled === false || !getRouteCandidates(rule.model).length) {
+      evaluations?.push({
+        rule: getRuleName(rule, i),
+        matched: false,
+        conditions: [],
+        skipped: rule.enabled === false ? "rule is disabled" : "rule has no target model",
+      });
+      continue;
+    }
+    const evaluation = evaluateRule(req, rule, tokenCount, i);
+    evaluations?.push(evaluation);
+    if (evaluation.matched) {
+      return { rule, name: evaluation.rule };
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,135 @@
+import { existsSync, readFileSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+const paths = vi.hoisted(() => ({ dir: '', file: '' }));
+
+// The store is kept in a temporary directory instead of the user's home
+vi.mock('../constants', async () => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  // Fresh module instances share the directory of the first
+  if (!paths.dir) {
+    paths.dir = mkdtempSync(join(tmpdir(), 'ccr-secrets-'));
+    paths.file = join(paths.dir, 'secrets.enc');
+  }
+  return { SECRETS_FILE: paths.file };
+});
+
+import { maskSecrets, PASSPHRASE_ENV, resolveSecrets, secretStore, unmaskSecrets } from './secrets';
+
+afterAll(() => {
+  rmSync(paths.dir, { recursive: true, force: true });
+});
+
+describe('secretStore', () => {
+  afterEach(() => {
+    delete process.env[PASSPHRASE_ENV];
+    rmSync(paths.file, { force: true });
+  });
+
+  it('stores secrets encrypted and readable only by the owner', () => {
+    secretStore.set('openai', 'sk-plain');
+    secretStore.set('deepseek', 'sk-other');
+
+    expect(secretStore.get('openai')).toBe('sk-plain');
+    expect(secretStore.getAll()).toEqual({ openai: 'sk-plain', deepseek: 'sk-other' });
+    expect(secretStore.list().map(info => info.name)).toEqual(['deepseek', 'openai']);
+    expect(readFileSync(paths.file, 'utf-8')).not.toContain('sk-plain');
+    expect(statSync(paths.file).mode & 0o777).toBe(0o600);
+  });
+
+  it('deletes the file with its last secret', () => {
+    secretStore.set('openai', 'sk-plain');
+    expect(secretStore.remove('missing')).toBe(false);
+    expect(secretStore.remove('openai')).toBe(true);
+    expect(existsSync(paths.file)).toBe(false);
+    expect(secretStore.getAll()).toEqual({});
+  });
+
+  it('rejects invalid names', () => {
+    expect(() => secretStore.set('a b', 'x')).toThrow("Invalid secret name 'a b'");
+  });
+
+  it('needs the passphrase of a store encrypted with one', async () => {
+    process.env[PASSPHRASE_ENV] = 'correct horse';
+    secretStore.set('openai', 'sk-plain');
+
+    // Fresh instances have no decrypted copy to fall back on
+    vi.resetModules();
+    const { secretStore: other } = await import('./secrets');
+    expect(other.get('openai')).toBe('sk-plain');
+
+    process.env[PASSPHRASE_ENV] = 'wrong';
+    vi.resetModules();
+    const { secretStore: third } = await import('./secrets');
+    expect(() => third.get('openai')).toThrow(`check ${PASSPHRASE_ENV}`);
+    delete process.env[PASSPHRASE_ENV];
+    expect(() => third.get('openai')).toThrow(`set ${PASSPHRASE_ENV}`);
+  });
+
+  it('sees changes written by another process', async () => {
+    secretStore.set('openai', 'sk-old');
+    expect(secretStore.get('openai')).toBe('sk-old');
+
+    vi.resetModules();
+    const { secretStore: other } = await import('./secrets');
+    other.set('openai', 'sk-new-value');
+    expect(secretStore.get('openai')).toBe('sk-new-value');
+  });
+});
+
+describe('resolveSecrets', () => {
+  afterEach(() => {
+    rmSync(paths.file, { force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('replaces references and keeps those it cannot resolve', () => {
+    secretStore.set('openai', 'sk-plain');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const config = {
+      Providers: [{ name: 'a', api_key: 'secret:openai' }, { name: 'b', api_key: ['secret:openai', 'secret:missing'] }]
+    };
+    expect(resolveSecrets(config)).toEqual({
+      Providers: [{ name: 'a', api_key: 'sk-plain' }, { name: 'b', api_key: ['sk-plain', 'secret:missing'] }]
+    });
+    expect(warn).toHaveBeenCalledWith("Secret 'missing' is not in the secrets store");
+  });
+
+  it('returns a config without references unchanged', () => {
+    const config = { Providers: [{ api_key: 'sk-plain' }] };
+    expect(resolveSecrets(config)).toBe(config);
+  });
+});
+
+describe('maskSecrets', () => {
+  it('masks plaintext credentials and restores them by fingerprint', () => {
+    const config = {
+      APIKEY: 'router-key',
+      Providers: [
+        { name: 'a', api_key: 'sk-a', api_base_url: 'https://a.example' },
+        { name: 'b', api_key: 'secret:b' },
+        { name: 'c', api_key: ['sk-c1', '$C_KEY'] }
+      ]
+    };
+    const masked = maskSecrets(config);
+    expect(masked.APIKEY).toMatch(/^masked:/);
+    expect(masked.Providers[0].api_key).toMatch(/^masked:/);
+    expect(masked.Providers[0].api_base_url).toBe('https://a.example');
+    expect(masked.Providers[1].api_key).toBe('secret:b');
+    expect(masked.Providers[2].api_key[1]).toBe('$C_KEY');
+
+    // Reordered providers keep their credentials
+    masked.Providers.reverse();
+    expect(unmaskSecrets(masked, config).Providers.map((provider: any) => provider.api_key)).toEqual([
+      ['sk-c1', '$C_KEY'],
+      'secret:b',
+      'sk-a'
+    ]);
+  });
+
+  it('rejects a mask of an unknown value', () => {
+    expect(() => unmaskSecrets({ api_key: 'masked:abc' }, {})).toThrow("Unknown masked value 'masked:abc'");
+  });
+});
@@ -0,0 +1,265 @@
+// Encrypted store for provider keys and tokens, so config.json can reference
+// them as `secret:NAME` instead of holding them in plaintext.
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import os from 'os';
+import { dirname } from 'path';
+import { SECRETS_FILE } from '../constants';
+import { fingerprint } from './hash';
+
+export type SecretKeySource = 'passphrase' | 'machine';
+
+export interface SecretInfo {
+  name: string;
+  updatedAt: string;
+}
+
+interface SecretEntry {
+  value: string;
+  updatedAt: string;
+}
+
+interface CachedStore {
+  // Modification time and size of the file the entries were decrypted from
+  mtimeMs: number;
+  size: number;
+  entries: Record<string, SecretEntry>;
+}
+
+interface SecretsFile {
+  version: 1;
+  keySource: SecretKeySource;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// Encrypts the store instead of the machine key when set
+export const PASSPHRASE_ENV = 'CCR_SECRETS_PASSPHRASE';
+const REFERENCE_PATTERN = /^secret:([A-Za-z0-9_.-]+)$/;
+const NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const MASK_PREFIX = 'masked:';
+// Config fields whose values are credentials
+const SECRET_FIELDS = /(api[-_]?key|token|secret|password)$/i;
+// Values that point elsewhere and are not credentials themselves
+const INDIRECT_VALUE = /^(secret:[A-Za-z0-9_.-]+|\$\{[^}]+\}|\$[A-Z_][A-Z0-9_]*)$/;
+
+/**
+ * Key material bound to this machine and user, for stores without a
+ * passphrase. Such a store cannot be decrypted elsewhere.
+ */
+const getMachineKeyMaterial = (): string => {
+  let machineId = '';
+  for (const file of ['/etc/machine-id', '/var/lib/dbus/machine-id']) {
+    try {
+      machineId = readFileSync(file, 'utf-8').trim();
+      break;
+    } catch {}
+  }
+  return [machineId, os.hostname(), os.userInfo().username, os.homedir()].join(':');
+};
+
+/**
+ * Named secrets in one file encrypted with AES-256-GCM. The key is derived
+ * with scrypt from `CCR_SECRETS_PASSPHRASE`, or from the machine key when
+ * no passphrase is set. Every write re-encrypts the store with the current
+ * key source, so setting a passphrase later moves the store over to it.
+ * Deriving the key is slow on purpose, so the decrypted store is kept until
+ * the file changes.
+ */
+class SecretStore {
+  private file = SECRETS_FILE;
+  private cache?: CachedStore;
+
+  exists(): boolean {
+    return existsSync(this.file);
+  }
+
+  list(): SecretInfo[] {
+    return Object.entries(this.load())
+      .map(([name, entry]) => ({ name, updatedAt: entry.updatedAt }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(name: string): string | undefined {
+    return this.load()[name]?.value;
+  }
+
+  /**
+   * Every secret by name, from a single read of the store.
+   */
+  getAll(): Record<string, string> {
+    return Object.fromEntries(Object.entries(this.load()).map(([name, entry]) => [name, entry.value]));
+  }
+
+  set(name: string, value: string): void {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid secret name '${name}'; use letters, digits, '_', '.' and '-'`);
+    }
+    const entries = this.load();
+    entries[name] = { value, updatedAt: new Date().toISOString() };
+    this.save(entries);
+  }
+
+  remove(name: string): boolean {
+    const entries = this.load();
+    if (!entries[name]) return false;
+    delete entries[name];
+    if (Object.keys(entries).length) {
+      this.save(entries);
+    } else {
+      unlinkSync(this.file);
+    }
+    return true;
+  }
+
+  private deriveKey(keySource: SecretKeySource, salt: Buffer): Buffer {
+    if (keySource === 'passphrase') {
+      const passphrase = process.env[PASSPHRASE_ENV];
+      if (!passphrase) {
+        throw new Error(`The secrets store is encrypted with a passphrase; set ${PASSPHRASE_ENV}`);
+      }
+      return scryptSync(passphrase, salt, 32);
+    }
+    return scryptSync(getMachineKeyMaterial(), salt, 32);
+  }
+
+  private load(): Record<string, SecretEntry> {
+    if (!this.exists()) {
+      this.cache = undefined;
+      return {};
+    }
+    const { mtimeMs, size } = statSync(this.file);
+    if (this.cache?.mtimeMs === mtimeMs && this.cache.size === size) {
+      return { ...this.cache.entries };
+    }
+    const entries = this.decrypt();
+    this.cache = { mtimeMs, size, entries };
+    return { ...entries };
+  }
+
+  private decrypt(): Record<string, SecretEntry> {
+    const file: SecretsFile = JSON.parse(readFileSync(this.file, 'utf-8'));
+    const key = this.deriveKey(file.keySource, Buffer.from(file.salt, 'base64'));
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return JSON.parse(data.toString('utf-8'));
+    } catch {
+      throw new Error(
+        file.keySource === 'passphrase'
+          ? `Failed to decrypt ${this.file}; check ${PASSPHRASE_ENV}`
+          : `Failed to decrypt ${this.file}; it was created on another machine or by another user`
+      );
+    }
+  }
+
+  private save(entries: Record<string, SecretEntry>): void {
+    const keySource: SecretKeySource = process.env[PASSPHRASE_ENV] ? 'passphrase' : 'machine';
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.deriveKey(keySource, salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(entries), 'utf-8'), cipher.final()]);
+    const file: SecretsFile = {
+      version: 1,
+      keySource,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+    if (!existsSync(dirname(this.file))) {
+      mkdirSync(dirname(this.file), { recursive: true });
+    }
+    writeFileSync(this.file, JSON.stringify(file, null, 2), { mode: 0o600 });
+    chmodSync(this.file, 0o600);
+    this.cache = undefined;
+  }
+}
+
+// Export singleton instance
+export const secretStore = new SecretStore();
+
+const mapStrings = (value: any, fn: (text: string, field?: string) => string, field?: string): any => {
+  if (typeof value === 'string') {
+    return fn(value, field);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, fn, field));
+  }
+  if (value && typeof value === 'object') {
+    // Values nested in a credential field, like the entries of an `api_key` list, are credentials too
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn, field && SECRET_FIELDS.test(field) ? field : key)])
+    );
+  }
+  return value;
+};
+
+/**
+ * Replace every `secret:NAME` value of a config with the stored secret.
+ * References that cannot be resolved are kept and reported.
+ */
+export const resolveSecrets = (config: any): any => {
+  let referenced = false;
+  mapStrings(config, text => {
+    referenced = referenced || REFERENCE_PATTERN.test(text);
+    return text;
+  });
+  if (!referenced) return config;
+
+  let secrets: Record<string, string | undefined> = {};
+  try {
+    secrets = secretStore.getAll();
+  } catch (e: any) {
+    console.error(`Failed to read the secrets store: ${e.message}`);
+    return config;
+  }
+  return mapStrings(config, text => {
+    const match = text.match(REFERENCE_PATTERN);
+    if (!match) return text;
+    const value = secrets[match[1]];
+    if (value === undefined) {
+      console.warn(`Secret '${match[1]}' is not in the secrets store`);
+      return text;
+    }
+    return value;
+  });
+};
+
+/**
+ * Hide the plaintext credentials of a config behind a mask holding their
+ * fingerprint. `secret:` references and environment variables are kept, as
+ * they reveal nothing.
+ */
+export const maskSecrets = (config: any): any => {
+  return mapStrings(config, (text, field) => {
+    if (!field || !SECRET_FIELDS.test(field) || !text || INDIRECT_VALUE.test(text) || text.startsWith(MASK_PREFIX)) {
+      return text;
+    }
+    return `${MASK_PREFIX}${fingerprint(text)}`;
+  });
+};
+
+/**
+ * Put the credentials of `current` back in place of the masks of a config
+ * saved from the UI. Masks are matched by fingerprint, so credentials stay
+ * attached when providers are reordered. Throws on a mask of an unknown value.
+ */
+export const unmaskSecrets = (config: any, current: any): any => {
+  const values = new Map<string, string>();
+  mapStrings(current, text => {
+    values.set(`${MASK_PREFIX}${fingerprint(text)}`, text);
+    return text;
+  });
+  return mapStrings(config, text => {
+    if (!text.startsWith(MASK_PREFIX)) return text;
+    const value = values.get(text);
+    if (value === undefined) {
+      throw new Error(`Unknown masked value '${text}'; enter the credential again`);
+    }
+    return value;
+  });
+};
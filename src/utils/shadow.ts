@@ -0,0 +1,91 @@
+// Mirrors a share of live traffic to a candidate model in the background, so a
+// provider can be evaluated on real workloads before it is routed to.
+import { getPrimaryModel } from "./fallback";
+import { monitoringService } from "./monitoring";
+import { ModelPricing } from "./pricing";
+import { ReplayOutcome, sendToModel } from "./replay";
+
+// Marks a shadow request; its value is the id of the mirrored request
+export const SHADOW_HEADER = "x-ccr-shadow";
+
+export interface ShadowConfig {
+  // `provider,model` that receives the mirrored requests
+  model?: string;
+  // Share of requests to mirror, 0-100
+  percentage?: number;
+  // Router scenarios to mirror; all when unset
+  scenarios?: string[];
+  // Keep the response text of the shadow model next to the primary request
+  storeText?: boolean;
+}
+
+export interface ShadowResult extends Omit<ReplayOutcome, "response"> {
+  text?: string;
+  toolUse?: string[];
+}
+
+// Scenarios of requests that are comparisons themselves
+const PINNED_SCENARIOS = ["replay", "shadow"];
+
+class ShadowService {
+  private config: ShadowConfig = {};
+  private port = 3456;
+  private apiKey?: string;
+  private pricing?: Record<string, ModelPricing>;
+
+  configure(
+    config: ShadowConfig = {},
+    options: { port: number; apiKey?: string; pricing?: Record<string, ModelPricing> }
+  ): void {
+    this.config = config;
+    this.port = options.port;
+    this.apiKey = options.apiKey;
+    this.pricing = options.pricing;
+  }
+
+  isEnabled(): boolean {
+    return !!getPrimaryModel(this.config.model) && (this.config.percentage || 0) > 0;
+  }
+
+  /**
+   * Whether a routed request is sampled for mirroring.
+   */
+  shouldMirror(req: any): boolean {
+    if (!this.isEnabled() || PINNED_SCENARIOS.includes(req.routeScenario)) return false;
+    if (this.config.scenarios?.length && !this.config.scenarios.includes(req.routeScenario)) return false;
+    if (req.body?.model === this.config.model) return false;
+    return Math.random() * 100 < this.config.percentage!;
+  }
+
+  /**
+   * Send a copy of the routed body to the shadow model and record the outcome
+   * on the primary request. Never throws; the client only sees the primary.
+   */
+  async mirror(requestId: string, body: any): Promise<void> {
+    const target = this.config.model!;
+    // Without the client's session, the copy's usage neither replaces the
+    // session usage that long-context routing reads nor adds to its metrics
+    const { user_id, ...metadata } = body.metadata || {};
+    try {
+      const { response, ...outcome } = await sendToModel({ ...body, metadata }, target, {
+        port: this.port,
+        apiKey: this.apiKey,
+        pricing: this.pricing,
+        headers: { [SHADOW_HEADER]: requestId },
+      });
+      const result: ShadowResult = outcome;
+      if (this.config.storeText && response) {
+        result.text = response.text;
+        if (response.toolUse.length) {
+          result.toolUse = response.toolUse.map((toolUse) => toolUse.name);
+        }
+      }
+      monitoringService.recordShadow(requestId, result);
+    } catch (error: any) {
+      console.error(`Failed to mirror request ${requestId} to ${target}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const shadowService = new ShadowService();
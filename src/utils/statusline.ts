@@ -3,6 +3,7 @@ import { execSync } from "child_process";
 import path from "node:path";
 import { CONFIG_FILE, HOME_DIR } from "../constants";
 import JSON5 from "json5";
+import { getPrimaryModel } from "./fallback";
 
 export interface StatusLineModuleConfig {
   type: string;
@@ -501,8 +502,9 @@ export async function parseStatusLineData(input: StatusLineInput): Promise<strin
         const config = JSON5.parse(configContent);
         
         // 从Router字段的default内容中获取模型名称
-        if (config.Router && config.Router.default) {
-          const [, defaultModel] = config.Router.default.split(",");
+        const defaultRoute = getPrimaryModel(config.Router?.default);
+        if (defaultRoute) {
+          const [, defaultModel] = defaultRoute.split(",");
           if (defaultModel) {
             model = defaultModel.trim();
           }
@@ -0,0 +1,237 @@
+// Optional OpenTelemetry tracing. Spans are exported in the OTLP/JSON format,
+// either to an OTLP/HTTP collector or appended to a file.
+import { randomBytes } from 'crypto';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { HOME_DIR } from '../constants';
+
+export interface TracingConfig {
+  enabled?: boolean;
+  exporter?: 'http' | 'file';
+  // OTLP/HTTP traces endpoint of the collector
+  endpoint?: string;
+  headers?: Record<string, string>;
+  // Target of the file exporter, one OTLP/JSON request per line
+  file?: string;
+  serviceName?: string;
+}
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+export type SpanKind = 'internal' | 'server' | 'client';
+
+type AttributeValue = string | number | boolean | undefined;
+
+const SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3
+};
+
+const DEFAULT_ENDPOINT = 'http://localhost:4318/v1/traces';
+const DEFAULT_SERVICE_NAME = 'claude-code-router';
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_BATCH_SIZE = 512;
+// Spans are dropped rather than buffered without bound when the exporter fails
+const MAX_QUEUE_SIZE = 4096;
+
+const nowUnixNano = (): bigint => {
+  return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000)) * 1000n;
+};
+
+const toAttributes = (attributes: Record<string, AttributeValue>) => {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value:
+        typeof value === 'number'
+          ? Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+          : typeof value === 'boolean'
+          ? { boolValue: value }
+          : { stringValue: String(value) }
+    }));
+};
+
+export class Span implements SpanContext {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  private readonly startTime = nowUnixNano();
+  private endTime?: bigint;
+  private attributes: Record<string, AttributeValue> = {};
+  private status: { code: number; message?: string } = { code: 0 };
+
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    parent: SpanContext | undefined,
+    private readonly onEnd: (span: Span) => void
+  ) {
+    this.traceId = parent?.traceId || randomBytes(16).toString('hex');
+    this.spanId = randomBytes(8).toString('hex');
+    this.parentSpanId = parent?.spanId;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue>): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  recordError(error: any): this {
+    this.status = { code: 2, message: error?.message || String(error) };
+    return this;
+  }
+
+  isEnded(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  end(): void {
+    if (this.isEnded()) return;
+    this.endTime = nowUnixNano();
+    this.onEnd(this);
+  }
+
+  toJSON() {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: SPAN_KINDS[this.kind],
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: (this.endTime ?? nowUnixNano()).toString(),
+      attributes: toAttributes(this.attributes),
+      status: this.status
+    };
+  }
+}
+
+/**
+ * Collects finished spans and exports them in batches. Traces continue across
+ * the internal `/v1/messages` calls made by agents and failover through the
+ * W3C `traceparent` header.
+ */
+class TracingService {
+  private config: TracingConfig = {};
+  private queue: Span[] = [];
+  private timer?: NodeJS.Timeout;
+  private exporting = false;
+
+  configure(config: TracingConfig = {}): void {
+    this.config = config;
+    if (this.isEnabled() && !this.timer) {
+      this.timer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled === true;
+  }
+
+  startSpan(
+    name: string,
+    options: { parent?: SpanContext; kind?: SpanKind; attributes?: Record<string, AttributeValue> } = {}
+  ): Span {
+    const span = new Span(name, options.kind || 'internal', options.parent, finished => this.enqueue(finished));
+    if (options.attributes) {
+      span.setAttributes(options.attributes);
+    }
+    return span;
+  }
+
+  /**
+   * Run `fn` inside a child span of `parent` that ends, and records a thrown
+   * error, when `fn` settles. Without a parent `fn` runs untraced.
+   */
+  async withSpan<T>(
+    name: string,
+    parent: SpanContext | undefined,
+    fn: (span?: Span) => Promise<T> | T
+  ): Promise<T> {
+    if (!parent) return fn();
+    const span = this.startSpan(name, { parent });
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * `traceparent` header value that makes a downstream request join the trace.
+   */
+  getTraceparent(span?: SpanContext): string | undefined {
+    if (!this.isEnabled() || !span) return undefined;
+    return `00-${span.traceId}-${span.spanId}-01`;
+  }
+
+  parseTraceparent(header: any): SpanContext | undefined {
+    const match = typeof header === 'string'
+      ? header.match(/^[\da-f]{2}-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/)
+      : null;
+    return match ? { traceId: match[1], spanId: match[2] } : undefined;
+  }
+
+  private enqueue(span: Span): void {
+    if (!this.isEnabled()) return;
+    if (this.queue.length >= MAX_QUEUE_SIZE) {
+      this.queue.shift();
+    }
+    this.queue.push(span);
+    if (this.queue.length >= MAX_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.exporting || !this.queue.length) return;
+    this.exporting = true;
+    const batch = this.queue.splice(0, MAX_BATCH_SIZE);
+    const serviceName = this.config.serviceName || DEFAULT_SERVICE_NAME;
+    const payload = JSON.stringify({
+      resourceSpans: [
+        {
+          resource: { attributes: toAttributes({ 'service.name': serviceName }) },
+          scopeSpans: [
+            {
+              scope: { name: serviceName },
+              spans: batch.map(span => span.toJSON())
+            }
+          ]
+        }
+      ]
+    });
+    try {
+      if (this.config.exporter === 'file') {
+        const file = this.config.file || join(HOME_DIR, 'traces', 'traces.jsonl');
+        await mkdir(dirname(file), { recursive: true });
+        await appendFile(file, `${payload}\n`);
+      } else {
+        const response = await fetch(this.config.endpoint || DEFAULT_ENDPOINT, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...this.config.headers },
+          body: payload
+        });
+        if (!response.ok) {
+          console.error(`Failed to export traces: ${response.status} ${await response.text()}`);
+        }
+      }
+    } catch (e) {
+      console.error('Failed to export traces:', e);
+    } finally {
+      this.exporting = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const tracingService = new TracingService();
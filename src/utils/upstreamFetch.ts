@@ -0,0 +1,61 @@
+// Upstream provider calls are made by llms with the global `fetch`. The
+// services that act on them are stages of one pipeline installed in its place,
+// instead of each wrapping `fetch` in the order they happen to be configured.
+
+export type FetchHandler = (input: any, init?: any) => Promise<Response>;
+
+/**
+ * A stage sees every call made with `fetch`. It answers the call itself or
+ * hands it, possibly changed, to `next`, the stages after it.
+ */
+export type FetchStage = (input: any, init: any, next: FetchHandler) => Promise<Response>;
+
+/**
+ * The stages, outermost first:
+ * - `retry` repeats a call answered with a transient status,
+ * - `capture` records every attempt as it is sent,
+ * - `cassette` records or replays the call, so a replay never needs a key,
+ * - `apiKeys` puts a pooled key in place of the placeholder and moves on to
+ *   the next key when one is rejected,
+ * - `mock` answers the calls to mock providers in-process.
+ */
+export const FETCH_STAGES = ['retry', 'capture', 'cassette', 'apiKeys', 'mock'] as const;
+
+export type FetchStageName = typeof FETCH_STAGES[number];
+
+/**
+ * URL of a `fetch` input, when it is a string or URL.
+ */
+export const getRequestUrl = (input: any): string | undefined => {
+  return typeof input === 'string' ? input : input instanceof URL ? input.toString() : undefined;
+};
+
+class UpstreamFetch {
+  private stages: Map<FetchStageName, FetchStage> = new Map();
+  private originalFetch?: typeof fetch;
+
+  /**
+   * Register the stage of a service. The global `fetch` is replaced by the
+   * pipeline when the first stage is registered.
+   */
+  use(name: FetchStageName, stage: FetchStage): void {
+    this.stages.set(name, stage);
+    if (!this.originalFetch) {
+      this.originalFetch = globalThis.fetch;
+      globalThis.fetch = (input: any, init?: any) => this.dispatch(0, input, init);
+    }
+  }
+
+  private dispatch(index: number, input: any, init?: any): Promise<Response> {
+    for (let position = index; position < FETCH_STAGES.length; position++) {
+      const stage = this.stages.get(FETCH_STAGES[position]);
+      if (stage) {
+        return stage(input, init, (nextInput, nextInit) => this.dispatch(position + 1, nextInput, nextInit));
+      }
+    }
+    return this.originalFetch!(input, init);
+  }
+}
+
+// Export singleton instance
+export const upstreamFetch = new UpstreamFetch();
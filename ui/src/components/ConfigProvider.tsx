@@ -1,7 +1,7 @@
 import { createContext, useContext, useState, useEffect } from 'react';
 import type { ReactNode, Dispatch, SetStateAction } from 'react';
 import { api } from '@/lib/api';
-import type { Config, StatusLineConfig } from '@/types';
+import type { Config, RouteTarget, StatusLineConfig } from '@/types';
 
 interface ConfigContextType {
   config: Config | null;
@@ -9,6 +9,12 @@ interface ConfigContextType {
   error: Error | null;
 }
 
+// Router entries are a single model, an ordered fallback chain or a weighted split
+const isRouteTarget = (value: unknown): value is RouteTarget =>
+  typeof value === 'string' ||
+  (Array.isArray(value) && value.every((item) => typeof item === 'string')) ||
+  (!!value && typeof value === 'object' && Array.isArray((value as { split?: unknown }).split));
+
 const ConfigContext = createContext<ConfigContextType | undefined>(undefined);
 
 // eslint-disable-next-line react-refresh/only-export-components
@@ -90,13 +96,15 @@ export function ConfigProvider({ children }: ConfigProviderProps) {
             powerline: { modules: [] }
           },
           Router: data.Router && typeof data.Router === 'object' ? {
-            default: typeof data.Router.default === 'string' ? data.Router.default : '',
-            background: typeof data.Router.background === 'string' ? data.Router.background : '',
-            think: typeof data.Router.think === 'string' ? data.Router.think : '',
-            longContext: typeof data.Router.longContext === 'string' ? data.Router.longContext : '',
+            default: isRouteTarget(data.Router.default) ? data.Router.default : '',
+            background: isRouteTarget(data.Router.background) ? data.Router.background : '',
+            think: isRouteTarget(data.Router.think) ? data.Router.think : '',
+            longContext: isRouteTarget(data.Router.longContext) ? data.Router.longContext : '',
             longContextThreshold: typeof data.Router.longContextThreshold === 'number' ? data.Router.longContextThreshold : 60000,
-            webSearch: typeof data.Router.webSearch === 'string' ? data.Router.webSearch : '',
-            image: typeof data.Router.image === 'string' ? data.Router.image : ''
+            webSearch: isRouteTarget(data.Router.webSearch) ? data.Router.webSearch : '',
+            image: typeof data.Router.image === 'string' ? data.Router.image : '',
+            rules: Array.isArray(data.Router.rules) ? data.Router.rules : [],
+            ...(data.Router.hedge && typeof data.Router.hedge === 'object' ? { hedge: data.Router.hedge } : {})
           } : {
             default: '',
             background: '',
@@ -104,8 +112,13 @@ export function ConfigProvider({ children }: ConfigProviderProps) {
             longContext: '',
             longContextThreshold: 60000,
             webSearch: '',
-            image: ''
+            image: '',
+            rules: []
           },
+          ModelCapabilities: data.ModelCapabilities && typeof data.ModelCapabilities === 'object' ? data.ModelCapabilities : undefined,
+          ModelAliases: data.ModelAliases && typeof data.ModelAliases === 'object' ? data.ModelAliases : undefined,
+          Pricing: data.Pricing && typeof data.Pricing === 'object' ? data.Pricing : undefined,
+          Budgets: data.Budgets && typeof data.Budgets === 'object' ? data.Budgets : undefined,
           CUSTOM_ROUTER_PATH: typeof data.CUSTOM_ROUTER_PATH === 'string' ? data.CUSTOM_ROUTER_PATH : ''
         };
         
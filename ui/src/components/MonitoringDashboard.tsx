@@ -2,6 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
+import { Input } from './ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import {
   Activity,
@@ -11,7 +12,8 @@ import {
   RefreshCw,
   Trash2,
   Download,
-  Circle
+  Circle,
+  Search
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import ApiClient from '@/lib/api';
@@ -27,12 +29,27 @@ interface RequestLog {
   model?: string;
   inputTokens?: number;
   outputTokens?: number;
+  countedTokens?: number;
+  cost?: number;
   duration?: number;
+  queueDepth?: number;
+  queueWaitMs?: number;
+  providerKeyId?: string;
+  timeToFirstToken?: number;
+  tokensPerSecond?: number;
   status: 'pending' | 'success' | 'error';
   error?: string;
   metadata?: Record<string, any>;
 }
 
+interface ModelLatency {
+  samples: number;
+  ttftP50?: number;
+  ttftP95?: number;
+  tokensPerSecondP50?: number;
+  tokensPerSecondP95?: number;
+}
+
 interface SessionMetrics {
   sessionId: string;
   startTime: string;
@@ -41,10 +58,57 @@ interface SessionMetrics {
   totalOutputTokens: number;
   averageResponseTime: number;
   errors: number;
+  cacheHits?: number;
+  cacheMisses?: number;
+  totalCost?: number;
+  latencyByModel?: Record<string, ModelLatency>;
   providers: Record<string, number>;
   models: Record<string, number>;
 }
 
+interface HistoryFilters {
+  from: string;
+  to: string;
+  sessionId: string;
+  provider: string;
+  model: string;
+  status: string;
+  error: string;
+}
+
+interface RequestHistoryPage {
+  total: number;
+  limit: number;
+  offset: number;
+  requests: RequestLog[];
+}
+
+interface SplitArmSummary {
+  scenario: string;
+  arm: string;
+  requests: number;
+  errors: number;
+  successRate: number;
+  averageDuration: number;
+  durationP95?: number;
+  ttftP50?: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+const HISTORY_PAGE_SIZE = 50;
+
+const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+  from: '',
+  to: '',
+  sessionId: '',
+  provider: '',
+  model: '',
+  status: '',
+  error: ''
+};
+
 export function MonitoringDashboard() {
   const { t } = useTranslation();
   const [logs, setLogs] = useState<RequestLog[]>([]);
@@ -52,6 +116,9 @@ export function MonitoringDashboard() {
   const [loading, setLoading] = useState(true);
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [selectedSession, setSelectedSession] = useState<string>('all');
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [history, setHistory] = useState<RequestHistoryPage | null>(null);
+  const [splitArms, setSplitArms] = useState<SplitArmSummary[]>([]);
   const wsRef = useRef<WebSocket | null>(null);
   const apiClient = useRef<ApiClient | null>(null);
 
@@ -158,6 +225,38 @@ export function MonitoringDashboard() {
     }
   };
 
+  const loadHistory = async (offset = 0) => {
+    const params = new URLSearchParams();
+    Object.entries(historyFilters).forEach(([key, value]) => {
+      if (!value) return;
+      // datetime-local values are in local time
+      params.set(key, key === 'from' || key === 'to' ? new Date(value).toISOString() : value);
+    });
+    params.set('limit', String(HISTORY_PAGE_SIZE));
+    params.set('offset', String(offset));
+    try {
+      const response = await apiClient.current?.get<RequestHistoryPage>(`/api/monitoring/requests?${params}`);
+      setHistory(response || null);
+    } catch (error) {
+      console.error('Failed to load request history:', error);
+      toast.error(t('monitoring.Failed to load request history'));
+    }
+  };
+
+  const loadSplits = async () => {
+    try {
+      const response = await apiClient.current?.get<{ arms: SplitArmSummary[] }>('/api/monitoring/splits');
+      setSplitArms(response?.arms || []);
+    } catch (error) {
+      console.error('Failed to load split results:', error);
+      toast.error(t('monitoring.Failed to load split results'));
+    }
+  };
+
+  const updateHistoryFilter = (key: keyof HistoryFilters, value: string) => {
+    setHistoryFilters(prev => ({ ...prev, [key]: value }));
+  };
+
   const clearLogs = async () => {
     try {
       await apiClient.current?.delete(`/api/monitoring/logs${
@@ -192,12 +291,20 @@ export function MonitoringDashboard() {
     linkElement.click();
   };
 
+  const formatCost = (cost: number) => {
+    return `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+  };
+
   const formatDuration = (ms?: number) => {
     if (!ms) return '-';
     if (ms < 1000) return `${ms}ms`;
     return `${(ms / 1000).toFixed(2)}s`;
   };
 
+  const formatSpeed = (tokensPerSecond: number) => {
+    return `${tokensPerSecond.toFixed(1)} tok/s`;
+  };
+
   const formatTimestamp = (timestamp: string) => {
     return new Date(timestamp).toLocaleString();
   };
@@ -222,6 +329,13 @@ export function MonitoringDashboard() {
 
   const totals = getTotalMetrics();
 
+  const latencyRows = metrics.flatMap((metric) =>
+    Object.entries(metric.latencyByModel || {}).map(([model, latency]) => ({
+      label: metrics.length > 1 ? `${metric.sessionId} · ${model}` : model,
+      latency
+    }))
+  );
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex justify-between items-center">
@@ -313,11 +427,20 @@ export function MonitoringDashboard() {
         </Card>
       </div>
 
-      <Tabs defaultValue="logs">
+      <Tabs
+        defaultValue="logs"
+        onValueChange={(value) => {
+          if (value === 'history' && !history) loadHistory();
+          if (value === 'splits') loadSplits();
+        }}
+      >
         <TabsList>
           <TabsTrigger value="logs">{t('monitoring.Request Logs')}</TabsTrigger>
           <TabsTrigger value="metrics">{t('monitoring.Session Metrics')}</TabsTrigger>
           <TabsTrigger value="models">{t('monitoring.Model Usage')}</TabsTrigger>
+          <TabsTrigger value="latency">{t('monitoring.Latency')}</TabsTrigger>
+          <TabsTrigger value="history">{t('monitoring.History')}</TabsTrigger>
+          <TabsTrigger value="splits">{t('monitoring.Splits')}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="logs" className="space-y-4">
@@ -362,15 +485,36 @@ export function MonitoringDashboard() {
                           {log.model && (
                             <span>Model: <strong>{log.model}</strong></span>
                           )}
+                          {log.providerKeyId && (
+                            <span>Key: <strong className="font-mono">{log.providerKeyId}</strong></span>
+                          )}
                           {log.duration && (
                             <span>Duration: <strong>{formatDuration(log.duration)}</strong></span>
                           )}
+                          {log.queueDepth !== undefined && log.queueWaitMs === undefined && (
+                            <span>Queued: <strong>#{log.queueDepth + 1}</strong></span>
+                          )}
+                          {!!log.queueWaitMs && (
+                            <span>Queue: <strong>{formatDuration(log.queueWaitMs)}</strong></span>
+                          )}
+                          {log.timeToFirstToken !== undefined && (
+                            <span>TTFT: <strong>{formatDuration(log.timeToFirstToken)}</strong></span>
+                          )}
+                          {log.tokensPerSecond !== undefined && (
+                            <span>Speed: <strong>{formatSpeed(log.tokensPerSecond)}</strong></span>
+                          )}
                           {log.inputTokens && (
                             <span>Input: <strong>{log.inputTokens}</strong></span>
                           )}
                           {log.outputTokens && (
                             <span>Output: <strong>{log.outputTokens}</strong></span>
                           )}
+                          {log.countedTokens !== undefined && (
+                            <span>Counted: <strong>{log.countedTokens}</strong></span>
+                          )}
+                          {log.cost !== undefined && (
+                            <span>Cost: <strong>{formatCost(log.cost)}</strong></span>
+                          )}
                         </div>
                         {log.error && (
                           <div className="text-sm text-red-500">
@@ -427,6 +571,18 @@ export function MonitoringDashboard() {
                           <p className="text-gray-500">{t('monitoring.Errors')}</p>
                           <p className="font-semibold text-red-500">{metric.errors}</p>
                         </div>
+                        {(metric.cacheHits || metric.cacheMisses) ? (
+                          <div>
+                            <p className="text-gray-500">{t('monitoring.Cache Hits / Misses')}</p>
+                            <p className="font-semibold">{metric.cacheHits || 0} / {metric.cacheMisses || 0}</p>
+                          </div>
+                        ) : null}
+                        {metric.totalCost ? (
+                          <div>
+                            <p className="text-gray-500">{t('monitoring.Cost')}</p>
+                            <p className="font-semibold">{formatCost(metric.totalCost)}</p>
+                          </div>
+                        ) : null}
                       </div>
                       <div className="text-xs text-gray-500">
                         Started: {formatTimestamp(metric.startTime)}
@@ -477,7 +633,236 @@ export function MonitoringDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="latency" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('monitoring.Streaming Latency by Model')}</CardTitle>
+              <CardDescription>{t('monitoring.Latency description')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {latencyRows.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">{t('monitoring.No streamed requests yet')}</p>
+              ) : (
+                <div className="grid md:grid-cols-2 gap-8">
+                  <LatencyChart
+                    title={t('monitoring.Time to First Token')}
+                    rows={latencyRows.map(row => ({ label: row.label, p50: row.latency.ttftP50, p95: row.latency.ttftP95 }))}
+                    format={(value) => formatDuration(Math.round(value))}
+                  />
+                  <LatencyChart
+                    title={t('monitoring.Tokens per Second')}
+                    rows={latencyRows.map(row => ({ label: row.label, p50: row.latency.tokensPerSecondP50, p95: row.latency.tokensPerSecondP95 }))}
+                    format={formatSpeed}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('monitoring.Request History')}</CardTitle>
+              <CardDescription>{t('monitoring.History description')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form
+                className="grid grid-cols-2 md:grid-cols-4 gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  loadHistory();
+                }}
+              >
+                <Input
+                  type="datetime-local"
+                  title={t('monitoring.From')}
+                  value={historyFilters.from}
+                  onChange={(e) => updateHistoryFilter('from', e.target.value)}
+                />
+                <Input
+                  type="datetime-local"
+                  title={t('monitoring.To')}
+                  value={historyFilters.to}
+                  onChange={(e) => updateHistoryFilter('to', e.target.value)}
+                />
+                <Input
+                  placeholder={t('monitoring.Session')}
+                  value={historyFilters.sessionId}
+                  onChange={(e) => updateHistoryFilter('sessionId', e.target.value)}
+                />
+                <select
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  value={historyFilters.status}
+                  onChange={(e) => updateHistoryFilter('status', e.target.value)}
+                >
+                  <option value="">{t('monitoring.Any status')}</option>
+                  <option value="success">success</option>
+                  <option value="error">error</option>
+                  <option value="pending">pending</option>
+                </select>
+                <Input
+                  placeholder={t('monitoring.Providers')}
+                  value={historyFilters.provider}
+                  onChange={(e) => updateHistoryFilter('provider', e.target.value)}
+                />
+                <Input
+                  placeholder={t('monitoring.Models')}
+                  value={historyFilters.model}
+                  onChange={(e) => updateHistoryFilter('model', e.target.value)}
+                />
+                <Input
+                  placeholder={t('monitoring.Error contains')}
+                  value={historyFilters.error}
+                  onChange={(e) => updateHistoryFilter('error', e.target.value)}
+                />
+                <Button type="submit">
+                  <Search className="h-4 w-4 mr-2" />
+                  {t('monitoring.Search')}
+                </Button>
+              </form>
+
+              {!history || history.requests.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">{t('monitoring.No matching requests')}</p>
+              ) : (
+                <div className="space-y-2">
+                  {history.requests.map((log) => (
+                    <div key={log.id} className="border rounded p-3 space-y-1 text-sm">
+                      <div className="flex justify-between items-center">
+                        <div className="flex items-center gap-2">
+                          <Circle className={`h-2 w-2 fill-current ${getStatusColor(log.status)}`} />
+                          <span className="font-mono">{log.method} {log.path}</span>
+                          <Badge variant="outline" className="text-xs">{log.sessionId}</Badge>
+                        </div>
+                        <span className="text-xs text-gray-500">{formatTimestamp(log.timestamp)}</span>
+                      </div>
+                      <div className="flex gap-4 text-gray-600">
+                        {log.provider && <span>Provider: <strong>{log.provider}</strong></span>}
+                        {log.model && <span>Model: <strong>{log.model}</strong></span>}
+                        {log.duration && <span>Duration: <strong>{formatDuration(log.duration)}</strong></span>}
+                        {log.cost !== undefined && <span>Cost: <strong>{formatCost(log.cost)}</strong></span>}
+                      </div>
+                      {log.error && <div className="text-red-500">Error: {log.error}</div>}
+                    </div>
+                  ))}
+                  <div className="flex justify-between items-center pt-2 text-sm text-gray-500">
+                    <span>
+                      {history.offset + 1}-{history.offset + history.requests.length} / {history.total}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={history.offset === 0}
+                        onClick={() => loadHistory(Math.max(0, history.offset - history.limit))}
+                      >
+                        {t('monitoring.Previous')}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={history.offset + history.limit >= history.total}
+                        onClick={() => loadHistory(history.offset + history.limit)}
+                      >
+                        {t('monitoring.Next')}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="splits" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('monitoring.Split Routing')}</CardTitle>
+              <CardDescription>{t('monitoring.Splits description')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {splitArms.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">{t('monitoring.No split traffic yet')}</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-500">
+                        <th className="py-2 pr-4">{t('monitoring.Scenario')}</th>
+                        <th className="py-2 pr-4">{t('monitoring.Arm')}</th>
+                        <th className="py-2 pr-4">{t('monitoring.Requests')}</th>
+                        <th className="py-2 pr-4">{t('monitoring.Success Rate')}</th>
+                        <th className="py-2 pr-4">{t('monitoring.Avg Response Time')}</th>
+                        <th className="py-2 pr-4">p95</th>
+                        <th className="py-2 pr-4">TTFT p50</th>
+                        <th className="py-2 pr-4">{t('monitoring.Input Tokens')}</th>
+                        <th className="py-2 pr-4">{t('monitoring.Output Tokens')}</th>
+                        <th className="py-2">{t('monitoring.Cost')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {splitArms.map((arm) => (
+                        <tr key={`${arm.scenario}:${arm.arm}`} className="border-b last:border-0">
+                          <td className="py-2 pr-4">{arm.scenario}</td>
+                          <td className="py-2 pr-4 font-medium">{arm.arm}</td>
+                          <td className="py-2 pr-4">{arm.requests}</td>
+                          <td className={`py-2 pr-4 ${arm.successRate < 0.95 ? 'text-red-500' : ''}`}>
+                            {(arm.successRate * 100).toFixed(1)}%
+                          </td>
+                          <td className="py-2 pr-4">{formatDuration(Math.round(arm.averageDuration))}</td>
+                          <td className="py-2 pr-4">{formatDuration(arm.durationP95)}</td>
+                          <td className="py-2 pr-4">{formatDuration(arm.ttftP50)}</td>
+                          <td className="py-2 pr-4">{arm.inputTokens.toLocaleString()}</td>
+                          <td className="py-2 pr-4">{arm.outputTokens.toLocaleString()}</td>
+                          <td className="py-2">{formatCost(arm.cost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface LatencyChartRow {
+  label: string;
+  p50?: number;
+  p95?: number;
+}
+
+function LatencyChart({ title, rows, format }: { title: string; rows: LatencyChartRow[]; format: (value: number) => string }) {
+  const max = Math.max(0, ...rows.map(row => Math.max(row.p50 || 0, row.p95 || 0)));
+  const width = (value?: number) => `${max && value ? (value / max) * 100 : 0}%`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h5 className="text-sm font-medium">{title}</h5>
+        <div className="flex gap-3 text-xs text-gray-500">
+          <span className="flex items-center gap-1"><span className="inline-block h-2 w-3 rounded bg-blue-500" />p50</span>
+          <span className="flex items-center gap-1"><span className="inline-block h-2 w-3 rounded bg-blue-200" />p95</span>
+        </div>
+      </div>
+      {rows.map((row) => (
+        <div key={row.label} className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="truncate text-gray-600">{row.label}</span>
+            <span className="text-gray-500 whitespace-nowrap">
+              {row.p50 !== undefined ? format(row.p50) : '-'} / {row.p95 !== undefined ? format(row.p95) : '-'}
+            </span>
+          </div>
+          <div className="relative h-3 rounded bg-gray-100">
+            <div className="absolute inset-y-0 left-0 rounded bg-blue-200" style={{ width: width(row.p95) }} />
+            <div className="absolute inset-y-0 left-0 rounded bg-blue-500" style={{ width: width(row.p50) }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
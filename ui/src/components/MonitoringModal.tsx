@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
+import type { FormEvent } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -8,6 +9,7 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
+import { Input } from './ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import {
   Activity,
@@ -18,7 +20,9 @@ import {
   Trash2,
   Download,
   Circle,
-  X
+  X,
+  ChevronDown,
+  ChevronRight
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import ApiClient from '@/lib/api';
@@ -34,12 +38,82 @@ interface RequestLog {
   model?: string;
   inputTokens?: number;
   outputTokens?: number;
+  countedTokens?: number;
+  cost?: number;
   duration?: number;
+  queueDepth?: number;
+  queueWaitMs?: number;
+  providerKeyId?: string;
   status: 'pending' | 'success' | 'error';
   error?: string;
+  capture?: RequestCapture;
+  shadow?: ShadowResult;
+  hedge?: HedgeLeg[];
+  retries?: RetryAttempt[];
   metadata?: Record<string, any>;
 }
 
+interface CapturedResponse {
+  text?: string;
+  thinking?: string;
+  toolUse: { id?: string; name: string; input: unknown }[];
+  stopReason?: string;
+  usage?: Record<string, number>;
+}
+
+interface RequestCapture {
+  routed?: unknown;
+  request?: {
+    url: string;
+    body: unknown;
+    truncated?: boolean;
+  };
+  response?: CapturedResponse;
+}
+
+interface ReplayOutcome {
+  provider?: string;
+  model?: string;
+  status: 'pending' | 'success' | 'error';
+  error?: string;
+  response?: CapturedResponse;
+  inputTokens?: number;
+  outputTokens?: number;
+  latencyMs?: number;
+  cost?: number;
+}
+
+interface ShadowResult extends Omit<ReplayOutcome, 'response'> {
+  text?: string;
+  toolUse?: string[];
+}
+
+interface HedgeLeg {
+  model: string;
+  outcome: 'won' | 'lost' | 'failed';
+  firstBlockMs?: number;
+  error?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  cost?: number;
+}
+
+interface RetryAttempt {
+  attempt: number;
+  provider?: string;
+  model?: string;
+  status: number;
+  error?: string;
+  delayMs: number;
+  fromHeader?: boolean;
+}
+
+interface ReplayComparison {
+  requestId: string;
+  original: ReplayOutcome;
+  replay: ReplayOutcome;
+}
+
 interface SessionMetrics {
   sessionId: string;
   startTime: string;
@@ -48,6 +122,9 @@ interface SessionMetrics {
   totalOutputTokens: number;
   averageResponseTime: number;
   errors: number;
+  cacheHits?: number;
+  cacheMisses?: number;
+  totalCost?: number;
   providers: Record<string, number>;
   models: Record<string, number>;
 }
@@ -65,6 +142,7 @@ export function MonitoringModal({ isOpen, onClose }: MonitoringModalProps) {
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [selectedSession, setSelectedSession] = useState<string>('all');
   const [currentSession, setCurrentSession] = useState<any>(null);
+  const [expandedLog, setExpandedLog] = useState<string | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const apiClient = useRef<ApiClient | null>(null);
 
@@ -227,6 +305,10 @@ export function MonitoringModal({ isOpen, onClose }: MonitoringModalProps) {
     linkElement.click();
   };
 
+  const formatCost = (cost: number) => {
+    return `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+  };
+
   const formatDuration = (ms?: number) => {
     if (!ms) return '-';
     if (ms < 1000) return `${ms}ms`;
@@ -423,21 +505,62 @@ export function MonitoringModal({ isOpen, onClose }: MonitoringModalProps) {
                               {log.model && (
                                 <span>Model: <strong>{log.model}</strong></span>
                               )}
+                              {log.providerKeyId && (
+                                <span>Key: <strong className="font-mono">{log.providerKeyId}</strong></span>
+                              )}
                               {log.duration && (
                                 <span>Duration: <strong>{formatDuration(log.duration)}</strong></span>
                               )}
+                              {log.queueDepth !== undefined && log.queueWaitMs === undefined && (
+                                <span>Queued: <strong>#{log.queueDepth + 1}</strong></span>
+                              )}
+                              {!!log.queueWaitMs && (
+                                <span>Queue: <strong>{formatDuration(log.queueWaitMs)}</strong></span>
+                              )}
                               {log.inputTokens && (
                                 <span>Input: <strong>{log.inputTokens}</strong></span>
                               )}
                               {log.outputTokens && (
                                 <span>Output: <strong>{log.outputTokens}</strong></span>
                               )}
+                              {log.countedTokens !== undefined && (
+                                <span>Counted: <strong>{log.countedTokens}</strong></span>
+                              )}
+                              {log.cost !== undefined && (
+                                <span>Cost: <strong>{formatCost(log.cost)}</strong></span>
+                              )}
                             </div>
                             {log.error && (
                               <div className="text-sm text-red-500">
                                 Error: {log.error}
                               </div>
                             )}
+                            {log.retries && <RetrySummary attempts={log.retries} />}
+                            {log.hedge && <HedgeSummary legs={log.hedge} />}
+                            {log.shadow && <ShadowSummary shadow={log.shadow} />}
+                            {log.capture && (
+                              <div className="text-sm">
+                                <button
+                                  type="button"
+                                  className="flex items-center gap-1 text-blue-600 hover:underline"
+                                  onClick={() => setExpandedLog(expandedLog === log.id ? null : log.id)}
+                                >
+                                  {expandedLog === log.id
+                                    ? <ChevronDown className="h-4 w-4" />
+                                    : <ChevronRight className="h-4 w-4" />}
+                                  {t('monitoring.Captured bodies')}
+                                </button>
+                                {expandedLog === log.id && (
+                                  <CaptureViewer
+                                    capture={log.capture}
+                                    onReplay={(model) => apiClient.current!.post<ReplayComparison>(
+                                      `/api/monitoring/requests/${log.id}/replay`,
+                                      { model }
+                                    )}
+                                  />
+                                )}
+                              </div>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -488,6 +611,18 @@ export function MonitoringModal({ isOpen, onClose }: MonitoringModalProps) {
                               <p className="text-gray-500">{t('monitoring.Errors')}</p>
                               <p className="font-semibold text-red-500">{metric.errors}</p>
                             </div>
+                            {(metric.cacheHits || metric.cacheMisses) ? (
+                              <div>
+                                <p className="text-gray-500">{t('monitoring.Cache Hits / Misses')}</p>
+                                <p className="font-semibold">{metric.cacheHits || 0} / {metric.cacheMisses || 0}</p>
+                              </div>
+                            ) : null}
+                            {metric.totalCost ? (
+                              <div>
+                                <p className="text-gray-500">{t('monitoring.Cost')}</p>
+                                <p className="font-semibold">{formatCost(metric.totalCost)}</p>
+                              </div>
+                            ) : null}
                           </div>
                           <div className="text-xs text-gray-500">
                             Started: {formatTimestamp(metric.startTime)}
@@ -543,4 +678,198 @@ export function MonitoringModal({ isOpen, onClose }: MonitoringModalProps) {
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
+
+const formatValue = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+function CaptureViewer({ capture, onReplay }: { capture: RequestCapture; onReplay: (model: string) => Promise<ReplayComparison> }) {
+  const { t } = useTranslation();
+  const { request, response } = capture;
+  const [target, setTarget] = useState('');
+  const [replaying, setReplaying] = useState(false);
+  const [comparison, setComparison] = useState<ReplayComparison | null>(null);
+
+  const replay = async (e: FormEvent) => {
+    e.preventDefault();
+    setReplaying(true);
+    try {
+      setComparison(await onReplay(target.trim()));
+    } catch (error) {
+      toast.error(`${t('monitoring.Replay failed')}: ${(error as Error).message}`);
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 mt-2">
+      <div className="grid md:grid-cols-2 gap-3">
+        <div className="space-y-1 min-w-0">
+          <h5 className="font-medium">{t('monitoring.Upstream request')}</h5>
+          {request ? (
+            <>
+              <p className="text-xs text-gray-500 break-all">
+                {request.url}
+                {request.truncated && ` (${t('monitoring.truncated')})`}
+              </p>
+              <pre className="max-h-80 overflow-auto rounded bg-gray-50 p-2 text-xs whitespace-pre-wrap break-all">
+                {formatValue(request.body)}
+              </pre>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">{t('monitoring.Not captured')}</p>
+          )}
+        </div>
+        <div className="space-y-2 min-w-0">
+          <h5 className="font-medium">{t('monitoring.Response')}</h5>
+          {response ? (
+            <>
+              {response.thinking && (
+                <pre className="max-h-40 overflow-auto rounded bg-gray-50 p-2 text-xs italic text-gray-500 whitespace-pre-wrap">
+                  {response.thinking}
+                </pre>
+              )}
+              {response.text && (
+                <pre className="max-h-60 overflow-auto rounded bg-gray-50 p-2 text-xs whitespace-pre-wrap">
+                  {response.text}
+                </pre>
+              )}
+              {response.toolUse.map((toolUse, index) => (
+                <div key={toolUse.id || index} className="rounded border p-2 space-y-1">
+                  <p className="text-xs font-medium">tool_use: {toolUse.name}</p>
+                  <pre className="max-h-40 overflow-auto text-xs whitespace-pre-wrap break-all">
+                    {formatValue(toolUse.input)}
+                  </pre>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">
+                {response.stopReason && `stop_reason: ${response.stopReason} `}
+                {response.usage && `usage: ${JSON.stringify(response.usage)}`}
+              </p>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">{t('monitoring.Not captured')}</p>
+          )}
+        </div>
+      </div>
+      {capture.routed !== undefined && (
+        <form className="flex gap-2 items-center" onSubmit={replay}>
+          <Input
+            className="h-8 max-w-xs"
+            placeholder="provider,model"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+          />
+          <Button type="submit" size="sm" disabled={replaying || !target.includes(',')}>
+            {replaying ? t('monitoring.Replaying') : t('monitoring.Replay')}
+          </Button>
+        </form>
+      )}
+      {comparison && (
+        <div className="grid md:grid-cols-2 gap-3">
+          <ReplayOutcomeCard title={t('monitoring.Original')} outcome={comparison.original} />
+          <ReplayOutcomeCard title={t('monitoring.Replay')} outcome={comparison.replay} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RetrySummary({ attempts }: { attempts: RetryAttempt[] }) {
+  const { t } = useTranslation();
+  return (
+    <div className="text-sm text-gray-600 space-y-1">
+      {attempts.map((attempt, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Circle className="h-2 w-2 text-yellow-500" />
+          <span>
+            {t('monitoring.Retry')} {attempt.attempt}: <strong>{attempt.provider},{attempt.model}</strong> {attempt.status}
+            {' · '}{t(attempt.fromHeader ? 'monitoring.Retry-After' : 'monitoring.Backoff')}: {attempt.delayMs}ms
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function HedgeSummary({ legs }: { legs: HedgeLeg[] }) {
+  const { t } = useTranslation();
+  return (
+    <div className="text-sm text-gray-600 space-y-1">
+      {legs.map((leg, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Circle className={`h-2 w-2 ${leg.outcome === 'won' ? 'text-green-500' : leg.outcome === 'failed' ? 'text-red-500' : 'text-gray-400'}`} />
+          <span>
+            {t('monitoring.Hedge')}: <strong>{leg.model}</strong> {t(`monitoring.hedge_${leg.outcome}`)}
+            {leg.firstBlockMs !== undefined && <>{' · '}{t('monitoring.First block')}: {leg.firstBlockMs}ms</>}
+            {leg.outcome !== 'won' && (
+              <>
+                {' · '}{t('monitoring.Input Tokens')}: {leg.inputTokens ?? '-'}
+                {' · '}{t('monitoring.Output Tokens')}: {leg.outputTokens ?? '-'}
+                {' · '}{t('monitoring.Cost')}: {leg.cost !== undefined ? `$${leg.cost.toFixed(6)}` : '-'}
+              </>
+            )}
+          </span>
+        </div>
+      ))}
+      {legs.filter((leg) => leg.error).map((leg, index) => (
+        <p key={index} className="text-xs text-red-500 break-all">{leg.model}: {leg.error}</p>
+      ))}
+    </div>
+  );
+}
+
+function ShadowSummary({ shadow }: { shadow: ShadowResult }) {
+  const { t } = useTranslation();
+  return (
+    <div className="text-sm text-gray-600 space-y-1">
+      <div className="flex items-center gap-2">
+        <Circle className={`h-2 w-2 ${shadow.status === 'error' ? 'text-red-500' : 'text-green-500'}`} />
+        <span>
+          {t('monitoring.Shadow')}: <strong>{shadow.provider},{shadow.model}</strong>
+          {' · '}{t('monitoring.Latency')}: {shadow.latencyMs !== undefined ? `${shadow.latencyMs}ms` : '-'}
+          {' · '}{t('monitoring.Input Tokens')}: {shadow.inputTokens ?? '-'}
+          {' · '}{t('monitoring.Output Tokens')}: {shadow.outputTokens ?? '-'}
+          {' · '}{t('monitoring.Cost')}: {shadow.cost !== undefined ? `$${shadow.cost.toFixed(6)}` : '-'}
+        </span>
+      </div>
+      {shadow.error && <p className="text-xs text-red-500 break-all">{shadow.error}</p>}
+      {shadow.text && (
+        <pre className="max-h-40 overflow-auto rounded bg-gray-50 p-2 text-xs whitespace-pre-wrap">
+          {shadow.text}
+        </pre>
+      )}
+      {shadow.toolUse?.length ? (
+        <p className="text-xs">tool_use: {shadow.toolUse.join(', ')}</p>
+      ) : null}
+    </div>
+  );
+}
+
+function ReplayOutcomeCard({ title, outcome }: { title: string; outcome: ReplayOutcome }) {
+  const { t } = useTranslation();
+  return (
+    <div className="rounded border p-2 space-y-1 min-w-0">
+      <h5 className="font-medium">
+        {title}: {outcome.provider},{outcome.model}
+      </h5>
+      <p className="text-xs text-gray-500">
+        {t('monitoring.Latency')}: {outcome.latencyMs !== undefined ? `${outcome.latencyMs}ms` : '-'}
+        {' · '}{t('monitoring.Input Tokens')}: {outcome.inputTokens ?? '-'}
+        {' · '}{t('monitoring.Output Tokens')}: {outcome.outputTokens ?? '-'}
+        {' · '}{t('monitoring.Cost')}: {outcome.cost !== undefined ? `$${outcome.cost.toFixed(6)}` : '-'}
+      </p>
+      {outcome.error && <p className="text-xs text-red-500 break-all">{outcome.error}</p>}
+      {outcome.response?.text && (
+        <pre className="max-h-60 overflow-auto rounded bg-gray-50 p-2 text-xs whitespace-pre-wrap">
+          {outcome.response.text}
+        </pre>
+      )}
+      {outcome.response?.toolUse.map((toolUse, index) => (
+        <pre key={toolUse.id || index} className="max-h-40 overflow-auto rounded bg-gray-50 p-2 text-xs whitespace-pre-wrap break-all">
+          tool_use: {toolUse.name} {formatValue(toolUse.input)}
+        </pre>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
 import { Pencil, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import type { Provider } from "@/types";
+import { api } from "@/lib/api";
+import type { Provider, ProviderHealth } from "@/types";
 
 interface ProviderListProps {
   providers: Provider[];
@@ -9,7 +12,44 @@ interface ProviderListProps {
   onRemove: (index: number) => void;
 }
 
+const HEALTH_REFRESH_INTERVAL = 10000;
+
 export function ProviderList({ providers, onEdit, onRemove }: ProviderListProps) {
+  const { t } = useTranslation();
+  const [health, setHealth] = useState<Record<string, ProviderHealth>>({});
+
+  // Poll circuit breaker state so the list shows why traffic moved off a provider
+  useEffect(() => {
+    const fetchHealth = async () => {
+      try {
+        const response = await api.get<{ providers: ProviderHealth[] }>('/providers/health');
+        setHealth(Object.fromEntries((response.providers || []).map((item) => [item.provider, item])));
+      } catch (error) {
+        console.error('Failed to fetch provider health:', error);
+      }
+    };
+    fetchHealth();
+    const interval = setInterval(fetchHealth, HEALTH_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const renderHealthBadge = (providerHealth?: ProviderHealth) => {
+    if (!providerHealth) return null;
+    const details = [
+      providerHealth.consecutiveFailures > 0 && t("providers.health_failures", { count: providerHealth.consecutiveFailures }),
+      providerHealth.retryAt && providerHealth.state === "open" && t("providers.health_retry_at", { time: new Date(providerHealth.retryAt).toLocaleTimeString() }),
+      providerHealth.lastError,
+    ].filter(Boolean).join("\n");
+
+    if (providerHealth.state === "open") {
+      return <Badge variant="destructive" title={details}>{t("providers.health_open")}</Badge>;
+    }
+    if (providerHealth.state === "half-open") {
+      return <Badge variant="secondary" className="bg-amber-100 text-amber-800" title={details}>{t("providers.health_half_open")}</Badge>;
+    }
+    return <Badge variant="outline" className="border-green-200 text-green-700" title={details || undefined}>{t("providers.health_closed")}</Badge>;
+  };
+
   // Handle case where providers might be null or undefined
   if (!providers || !Array.isArray(providers)) {
     return (
@@ -56,7 +96,10 @@ export function ProviderList({ providers, onEdit, onRemove }: ProviderListProps)
         return (
           <div key={index} className="flex items-start justify-between rounded-md border bg-white p-4 transition-all hover:shadow-md animate-slide-in hover:scale-[1.01]">
             <div className="flex-1 space-y-1.5">
-              <p className="text-md font-semibold text-gray-800">{providerName}</p>
+              <div className="flex items-center gap-2">
+                <p className="text-md font-semibold text-gray-800">{providerName}</p>
+                {renderHealthBadge(health[provider.name])}
+              </div>
               <p className="text-sm text-gray-500">{apiBaseUrl}</p>
               <div className="flex flex-wrap gap-2 pt-2">
                 {models.map((model, modelIndex) => (
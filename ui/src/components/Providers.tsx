@@ -19,10 +19,27 @@ import { Badge } from "@/components/ui/badge";
 import { Combobox } from "@/components/ui/combobox";
 import { ComboInput } from "@/components/ui/combo-input";
 import { api } from "@/lib/api";
-import type { Provider } from "@/types";
+import type { ApiKeyEntry, Provider, ProviderKeys } from "@/types";
 
 interface ProviderType extends Provider {}
 
+interface ApiKeyRow {
+  key: string;
+  dailyLimit?: number;
+}
+
+// A single key without a daily limit is stored as a plain string, so configs
+// stay backward compatible
+const toApiKeyRows = (value: Provider["api_key"]): ApiKeyRow[] => {
+  const entries = Array.isArray(value) ? value : [value || ""];
+  return entries.map((entry) => (typeof entry === "string" ? { key: entry } : { ...entry }));
+};
+
+const fromApiKeyRows = (rows: ApiKeyRow[]): Provider["api_key"] => {
+  if (rows.length === 1 && !rows[0].dailyLimit) return rows[0].key;
+  return rows.map((row): ApiKeyEntry => (row.dailyLimit ? { key: row.key, dailyLimit: row.dailyLimit } : row.key));
+};
+
 export function Providers() {
   const { t } = useTranslation();
   const { config, setConfig } = useConfig();
@@ -39,6 +56,7 @@ export function Providers() {
   const [apiKeyError, setApiKeyError] = useState<string | null>(null);
   const [nameError, setNameError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState<string>("");
+  const [keyHealth, setKeyHealth] = useState<Record<string, ProviderKeys>>({});
   const comboInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -73,6 +91,20 @@ export function Providers() {
     fetchTransformers();
   }, []);
 
+  // Rotation state of the saved keys, refreshed whenever a provider is opened
+  useEffect(() => {
+    if (editingProviderIndex === null) return;
+    const fetchKeyHealth = async () => {
+      try {
+        const response = await api.get<{ providers: ProviderKeys[] }>('/providers/keys');
+        setKeyHealth(Object.fromEntries((response.providers || []).map((item) => [item.provider, item])));
+      } catch (error) {
+        console.error('Failed to fetch API key health:', error);
+      }
+    };
+    fetchKeyHealth();
+  }, [editingProviderIndex]);
+
   // Handle case where config is null or undefined
   if (!config) {
     return (
@@ -143,8 +175,9 @@ export function Providers() {
       return;
     }
     
-    // Validate API key
-    if (!editingProviderData.api_key || editingProviderData.api_key.trim() === '') {
+    // Validate API key; empty key rows are dropped
+    const apiKeyRows = toApiKeyRows(editingProviderData.api_key).filter((row) => row.key.trim() !== '');
+    if (!apiKeyRows.length) {
       setApiKeyError(t("providers.api_key_required"));
       return;
     }
@@ -155,10 +188,11 @@ export function Providers() {
     
     if (editingProviderIndex !== null && editingProviderData) {
       const newProviders = [...config.Providers];
+      const savedProvider = { ...editingProviderData, api_key: fromApiKeyRows(apiKeyRows) };
       if (isNewProvider) {
-        newProviders.push(editingProviderData);
+        newProviders.push(savedProvider);
       } else {
-        newProviders[editingProviderIndex] = editingProviderData;
+        newProviders[editingProviderIndex] = savedProvider;
       }
       setConfig({ ...config, Providers: newProviders });
     }
@@ -211,6 +245,50 @@ export function Providers() {
     }
   };
 
+  const handleApiKeysChange = (rows: ApiKeyRow[]) => {
+    if (editingProviderData) {
+      setEditingProviderData({ ...editingProviderData, api_key: fromApiKeyRows(rows) });
+    }
+  };
+
+  const handleApiKeyRotationChange = (rotation: ProviderType["api_key_rotation"]) => {
+    if (editingProviderData) {
+      setEditingProviderData({ ...editingProviderData, api_key_rotation: rotation });
+    }
+  };
+
+  const renderKeyHealth = (provider: string) => {
+    const pool = keyHealth[provider];
+    if (!pool) return null;
+    return (
+      <div className="space-y-1 text-xs text-gray-600">
+        {pool.keys.map((key) => (
+          <div key={key.id} className="flex items-center gap-2">
+            <span>
+              {t("providers.api_key_label", { index: key.index + 1 })} <span className="font-mono">{key.id}</span>
+            </span>
+            {key.state === "benched" ? (
+              <Badge variant="destructive" title={key.lastStatus ? String(key.lastStatus) : undefined}>
+                {t("providers.api_key_benched", { time: key.benchedUntil ? new Date(key.benchedUntil).toLocaleTimeString() : "-" })}
+              </Badge>
+            ) : key.state === "exhausted" ? (
+              <Badge variant="secondary" className="bg-amber-100 text-amber-800">{t("providers.api_key_exhausted")}</Badge>
+            ) : (
+              <Badge variant="outline" className="border-green-200 text-green-700">{t("providers.api_key_active")}</Badge>
+            )}
+            <span>
+              {t("providers.api_key_usage", {
+                today: key.dailyLimit ? `${key.requestsToday}/${key.dailyLimit}` : key.requestsToday,
+                requests: key.requests,
+                failures: key.failures,
+              })}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const handleProviderTransformerChange = (_index: number, transformerPath: string) => {
     if (!transformerPath || !editingProviderData) return; // Don't add empty transformers
     
@@ -592,34 +670,80 @@ export function Providers() {
               </div>
               <div className="space-y-2">
                 <Label htmlFor="api_key">{t("providers.api_key")}</Label>
-                <div className="relative">
-                  <Input 
-                    id="api_key" 
-                    type={showApiKey[editingProviderIndex || 0] ? "text" : "password"} 
-                    value={editingProvider.api_key || ''} 
-                    onChange={(e) => handleProviderChange(editingProviderIndex, 'api_key', e.target.value)} 
-                    className={apiKeyError ? "border-red-500" : ""}
-                  />
+                {toApiKeyRows(editingProvider.api_key).map((row, keyIndex, rows) => (
+                  <div key={keyIndex} className="flex gap-2 items-center">
+                    <div className="relative flex-1">
+                      <Input 
+                        id={keyIndex === 0 ? "api_key" : undefined} 
+                        type={showApiKey[editingProviderIndex || 0] ? "text" : "password"} 
+                        value={row.key} 
+                        onChange={(e) => handleApiKeysChange(rows.map((item, index) => index === keyIndex ? { ...item, key: e.target.value } : item))} 
+                        className={apiKeyError ? "border-red-500" : ""}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-2 top-1/2 transform -translate-y-1/2 h-8 w-8"
+                        onClick={() => {
+                          const index = editingProviderIndex || 0;
+                          setShowApiKey(prev => ({
+                            ...prev,
+                            [index]: !prev[index]
+                          }));
+                        }}
+                      >
+                        {showApiKey[editingProviderIndex || 0] ? (
+                          <EyeOff className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                    {rows.length > 1 && (
+                      <>
+                        <Input
+                          type="number"
+                          min={0}
+                          className="w-32"
+                          placeholder={t("providers.api_key_daily_limit")}
+                          value={row.dailyLimit ?? ""}
+                          onChange={(e) => handleApiKeysChange(rows.map((item, index) => index === keyIndex ? { ...item, dailyLimit: e.target.value ? Number(e.target.value) : undefined } : item))}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleApiKeysChange(rows.filter((_, index) => index !== keyIndex))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))}
+                <div className="flex gap-2 items-center">
                   <Button
                     type="button"
-                    variant="ghost"
-                    size="icon"
-                    className="absolute right-2 top-1/2 transform -translate-y-1/2 h-8 w-8"
-                    onClick={() => {
-                      const index = editingProviderIndex || 0;
-                      setShowApiKey(prev => ({
-                        ...prev,
-                        [index]: !prev[index]
-                      }));
-                    }}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleApiKeysChange([...toApiKeyRows(editingProvider.api_key), { key: "" }])}
                   >
-                    {showApiKey[editingProviderIndex || 0] ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
+                    <Plus className="h-4 w-4 mr-1" />
+                    {t("providers.api_key_add")}
                   </Button>
+                  {Array.isArray(editingProvider.api_key) && editingProvider.api_key.length > 1 && (
+                    <select
+                      value={editingProvider.api_key_rotation || "round-robin"}
+                      onChange={(e) => handleApiKeyRotationChange(e.target.value as ProviderType["api_key_rotation"])}
+                      className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                    >
+                      <option value="round-robin">{t("providers.api_key_round_robin")}</option>
+                      <option value="least-used">{t("providers.api_key_least_used")}</option>
+                    </select>
+                  )}
                 </div>
+                {!isNewProvider && renderKeyHealth(editingProvider.name)}
                 {apiKeyError && (
                   <p className="text-sm text-red-500">{apiKeyError}</p>
                 )}
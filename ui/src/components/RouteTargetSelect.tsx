@@ -0,0 +1,57 @@
+import { useTranslation } from "react-i18next";
+import { Combobox } from "./ui/combobox";
+import { MultiCombobox } from "./ui/multi-combobox";
+import type { RouteTarget } from "@/types";
+
+interface RouteTargetSelectProps {
+  options: { label: string; value: string }[];
+  value?: RouteTarget;
+  onChange: (value: RouteTarget) => void;
+}
+
+const toCandidates = (target?: RouteTarget): string[] =>
+  Array.isArray(target) ? target : typeof target === "string" && target ? [target] : [];
+
+// Primary model plus an ordered list of fallbacks. A plain string is stored
+// unless fallbacks are configured, to keep configs backward compatible.
+export function RouteTargetSelect({ options, value, onChange }: RouteTargetSelectProps) {
+  const { t } = useTranslation();
+  const [primary = "", ...fallbacks] = toCandidates(value);
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return (
+      <p className="text-sm text-gray-600">
+        {t("router.split")}:{" "}
+        {value.split.map((arm) => `${arm.name || toCandidates(arm.model)[0]} (${arm.weight})`).join(", ")}
+      </p>
+    );
+  }
+
+  const handleChange = (nextPrimary: string, nextFallbacks: string[]) => {
+    const candidates = [nextPrimary, ...nextFallbacks.filter((model) => model !== nextPrimary)].filter(Boolean);
+    onChange(candidates.length > 1 ? candidates : candidates[0] || "");
+  };
+
+  return (
+    <>
+      <Combobox
+        options={options}
+        value={primary}
+        onChange={(model) => handleChange(model, fallbacks)}
+        placeholder={t("router.selectModel")}
+        searchPlaceholder={t("router.searchModel")}
+        emptyPlaceholder={t("router.noModelFound")}
+      />
+      {primary && (
+        <MultiCombobox
+          options={options.filter((option) => option.value !== primary)}
+          value={fallbacks}
+          onChange={(models) => handleChange(primary, models)}
+          placeholder={t("router.fallbacks")}
+          searchPlaceholder={t("router.searchModel")}
+          emptyPlaceholder={t("router.noModelFound")}
+        />
+      )}
+    </>
+  );
+}
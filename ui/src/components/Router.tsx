@@ -4,6 +4,11 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { useConfig } from "./ConfigProvider";
 import { Combobox } from "./ui/combobox";
+import { RouteTargetSelect } from "./RouteTargetSelect";
+import { RoutingRules } from "./RoutingRules";
+import type { RouteTarget, RoutingRule } from "@/types";
+
+type RouteField = "default" | "background" | "think" | "longContext" | "webSearch";
 
 export function Router() {
   const { t } = useTranslation();
@@ -34,7 +39,7 @@ export function Router() {
     image: ""
   };
 
-  const handleRouterChange = (field: string, value: string | number) => {
+  const handleRouterChange = (field: string, value: RouteTarget | RoutingRule[] | number) => {
     // Handle case where config.Router might be null or undefined
     const currentRouter = config.Router || {};
     const newRouter = { ...currentRouter, [field]: value };
@@ -64,6 +69,14 @@ export function Router() {
     }));
   });
 
+  const renderRouteSelect = (field: RouteField) => (
+    <RouteTargetSelect
+      options={modelOptions}
+      value={routerConfig[field]}
+      onChange={(value) => handleRouterChange(field, value)}
+    />
+  );
+
   return (
     <Card className="flex h-full flex-col rounded-lg border shadow-sm">
       <CardHeader className="border-b p-4">
@@ -72,49 +85,21 @@ export function Router() {
       <CardContent className="flex-grow space-y-5 overflow-y-auto p-4">
         <div className="space-y-2">
           <Label>{t("router.default")}</Label>
-          <Combobox
-            options={modelOptions}
-            value={routerConfig.default || ""}
-            onChange={(value) => handleRouterChange("default", value)}
-            placeholder={t("router.selectModel")}
-            searchPlaceholder={t("router.searchModel")}
-            emptyPlaceholder={t("router.noModelFound")}
-          />
+          {renderRouteSelect("default")}
         </div>
         <div className="space-y-2">
           <Label>{t("router.background")}</Label>
-          <Combobox
-            options={modelOptions}
-            value={routerConfig.background || ""}
-            onChange={(value) => handleRouterChange("background", value)}
-            placeholder={t("router.selectModel")}
-            searchPlaceholder={t("router.searchModel")}
-            emptyPlaceholder={t("router.noModelFound")}
-          />
+          {renderRouteSelect("background")}
         </div>
         <div className="space-y-2">
           <Label>{t("router.think")}</Label>
-          <Combobox
-            options={modelOptions}
-            value={routerConfig.think || ""}
-            onChange={(value) => handleRouterChange("think", value)}
-            placeholder={t("router.selectModel")}
-            searchPlaceholder={t("router.searchModel")}
-            emptyPlaceholder={t("router.noModelFound")}
-          />
+          {renderRouteSelect("think")}
         </div>
         <div className="space-y-2">
           <div className="flex items-center gap-4">
             <div className="flex-1">
               <Label>{t("router.longContext")}</Label>
-              <Combobox
-                options={modelOptions}
-                value={routerConfig.longContext || ""}
-                onChange={(value) => handleRouterChange("longContext", value)}
-                placeholder={t("router.selectModel")}
-                searchPlaceholder={t("router.searchModel")}
-                emptyPlaceholder={t("router.noModelFound")}
-              />
+              {renderRouteSelect("longContext")}
             </div>
             <div className="w-48">
               <Label>{t("router.longContextThreshold")}</Label>
@@ -129,14 +114,7 @@ export function Router() {
         </div>
         <div className="space-y-2">
           <Label>{t("router.webSearch")}</Label>
-          <Combobox
-            options={modelOptions}
-            value={routerConfig.webSearch || ""}
-            onChange={(value) => handleRouterChange("webSearch", value)}
-            placeholder={t("router.selectModel")}
-            searchPlaceholder={t("router.searchModel")}
-            emptyPlaceholder={t("router.noModelFound")}
-          />
+          {renderRouteSelect("webSearch")}
         </div>
         <div className="space-y-2">
           <div className="flex items-center gap-4">
@@ -165,6 +143,11 @@ export function Router() {
             </div>
           </div>
         </div>
+        <RoutingRules
+          rules={routerConfig.rules || []}
+          modelOptions={modelOptions}
+          onChange={(rules) => handleRouterChange("rules", rules)}
+        />
       </CardContent>
     </Card>
   );
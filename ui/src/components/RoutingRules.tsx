@@ -0,0 +1,172 @@
+import { useTranslation } from "react-i18next";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RouteTargetSelect } from "./RouteTargetSelect";
+import type { RoutingRule, RoutingRuleMatch } from "@/types";
+
+interface RoutingRulesProps {
+  rules: RoutingRule[];
+  modelOptions: { label: string; value: string }[];
+  onChange: (rules: RoutingRule[]) => void;
+}
+
+type PatternField = "lastUserMessage" | "systemPrompt" | "sessionId" | "model";
+
+const PATTERN_FIELDS: { field: PatternField; label: string }[] = [
+  { field: "lastUserMessage", label: "router.match_last_user_message" },
+  { field: "systemPrompt", label: "router.match_system_prompt" },
+  { field: "sessionId", label: "router.match_session_id" },
+  { field: "model", label: "router.match_model" },
+];
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+// Rules are evaluated top to bottom before the built-in scenarios; the first match wins
+export function RoutingRules({ rules, modelOptions, onChange }: RoutingRulesProps) {
+  const { t } = useTranslation();
+
+  const updateRule = (index: number, updates: Partial<RoutingRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  };
+
+  const updateMatch = (index: number, updates: Partial<RoutingRuleMatch>) => {
+    const match: RoutingRuleMatch = { ...rules[index].match, ...updates };
+    // Drop cleared conditions so they are not evaluated
+    (Object.keys(match) as (keyof RoutingRuleMatch)[]).forEach((key) => {
+      const value = match[key];
+      if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) {
+        delete match[key];
+      }
+    });
+    updateRule(index, { match });
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addRule = () => {
+    onChange([...rules, { name: "", enabled: true, match: {}, model: "" }]);
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  const parseNumber = (value: string) => (value === "" ? undefined : parseInt(value) || 0);
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>{t("router.rules")}</Label>
+          <p className="text-xs text-gray-500">{t("router.rules_description")}</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={addRule}>
+          <Plus className="mr-1 h-4 w-4" />
+          {t("router.add_rule")}
+        </Button>
+      </div>
+      {rules.length === 0 && (
+        <div className="rounded-md border bg-white p-4 text-center text-sm text-gray-500">
+          {t("router.no_rules")}
+        </div>
+      )}
+      {rules.map((rule, index) => {
+        const match = rule.match || {};
+        return (
+          <div key={index} className="space-y-3 rounded-md border bg-white p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={rule.name || ""}
+                onChange={(e) => updateRule(index, { name: e.target.value })}
+                placeholder={t("router.rule_name")}
+              />
+              <Switch
+                checked={rule.enabled !== false}
+                onCheckedChange={(checked) => updateRule(index, { enabled: checked })}
+                title={t("router.rule_enabled")}
+              />
+              <Button variant="ghost" size="icon" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button variant="destructive" size="icon" onClick={() => removeRule(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {PATTERN_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">{t(label)}</Label>
+                  <Input
+                    value={match[field] || ""}
+                    onChange={(e) => updateMatch(index, { [field]: e.target.value })}
+                    placeholder={t("router.regex_placeholder")}
+                  />
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label className="text-xs">{t("router.match_tools")}</Label>
+                <Input
+                  value={(match.tools || []).join(",")}
+                  onChange={(e) => updateMatch(index, {
+                    tools: e.target.value ? e.target.value.split(",") : []
+                  })}
+                  placeholder={t("router.tools_placeholder")}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">{t("router.match_thinking")}</Label>
+                <select
+                  value={match.thinking === undefined ? "" : String(match.thinking)}
+                  onChange={(e) => updateMatch(index, {
+                    thinking: e.target.value === "" ? undefined : e.target.value === "true"
+                  })}
+                  className={selectClassName}
+                >
+                  <option value="">{t("router.thinking_any")}</option>
+                  <option value="true">{t("common.yes")}</option>
+                  <option value="false">{t("common.no")}</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">{t("router.match_min_tokens")}</Label>
+                <Input
+                  type="number"
+                  value={match.minTokens ?? ""}
+                  onChange={(e) => updateMatch(index, { minTokens: parseNumber(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">{t("router.match_max_tokens")}</Label>
+                <Input
+                  type="number"
+                  value={match.maxTokens ?? ""}
+                  onChange={(e) => updateMatch(index, { maxTokens: parseNumber(e.target.value) })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t("router.rule_target")}</Label>
+              <RouteTargetSelect
+                options={modelOptions}
+                value={rule.model}
+                onChange={(model) => updateRule(index, { model })}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
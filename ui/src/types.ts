@@ -3,22 +3,98 @@ export interface ProviderTransformer {
   [key: string]: any; // Allow for model-specific transformers
 }
 
+// An API key, optionally with the number of requests it may serve per day
+export type ApiKeyEntry = string | { key: string; dailyLimit?: number };
+
 export interface Provider {
   name: string;
   api_base_url: string;
-  api_key: string;
+  // Several keys are rotated between
+  api_key: string | ApiKeyEntry[];
+  api_key_rotation?: 'round-robin' | 'least-used';
+  api_key_bench_ms?: number;
   models: string[];
   transformer?: ProviderTransformer;
 }
 
+export interface ApiKeyHealth {
+  // Fingerprint of the key
+  id: string;
+  index: number;
+  state: 'active' | 'benched' | 'exhausted';
+  benchedUntil?: string;
+  lastStatus?: number;
+  lastUsedAt?: string;
+  requests: number;
+  failures: number;
+  requestsToday: number;
+  dailyLimit?: number;
+}
+
+export interface ProviderKeys {
+  provider: string;
+  rotation: 'round-robin' | 'least-used';
+  keys: ApiKeyHealth[];
+}
+
+export interface SplitArm {
+  name?: string;
+  model: string | string[];
+  weight: number;
+}
+
+// A route target is a single "provider,model", an ordered fallback chain, or
+// a weighted split across several targets
+export type RouteTarget = string | string[] | { split: SplitArm[] };
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+  openedAt?: string;
+  retryAt?: string;
+}
+
+export interface RoutingRuleMatch {
+    lastUserMessage?: string;
+    systemPrompt?: string;
+    tools?: string[];
+    minTokens?: number;
+    maxTokens?: number;
+    thinking?: boolean;
+    sessionId?: string;
+    model?: string;
+}
+
+export interface RoutingRule {
+    name?: string;
+    enabled?: boolean;
+    match: RoutingRuleMatch;
+    model: RouteTarget;
+}
+
+export interface HedgeConfig {
+    models?: string[];
+    scenarios?: string[];
+}
+
 export interface RouterConfig {
-    default: string;
-    background: string;
-    think: string;
-    longContext: string;
+    default: RouteTarget;
+    background: RouteTarget;
+    think: RouteTarget;
+    longContext: RouteTarget;
     longContextThreshold: number;
-    webSearch: string;
+    webSearch: RouteTarget;
     image: string;
+    rules?: RoutingRule[];
+    hedge?: HedgeConfig;
     custom?: any;
 }
 
@@ -49,9 +125,43 @@ export interface StatusLineConfig {
   fontFamily?: string;
 }
 
+export interface ModelCapabilities {
+  contextWindow?: number;
+  maxOutput?: number;
+  tokenizer?: string;
+}
+
+// Prices in USD per million tokens
+export interface ModelPricing {
+  input?: number;
+  output?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export interface BudgetLimit {
+  softCost?: number;
+  hardCost?: number;
+  softTokens?: number;
+  hardTokens?: number;
+}
+
+export interface BudgetsConfig {
+  daily?: BudgetLimit;
+  session?: BudgetLimit;
+  apiKey?: BudgetLimit;
+  downgradeModel?: RouteTarget;
+}
+
 export interface Config {
   Providers: Provider[];
   Router: RouterConfig;
+  // Keyed by "provider,model" or the bare model name
+  ModelCapabilities?: Record<string, ModelCapabilities>;
+  // Alias to "provider,model"
+  ModelAliases?: Record<string, string>;
+  Pricing?: Record<string, ModelPricing>;
+  Budgets?: BudgetsConfig;
   transformers: Transformer[];
   StatusLine?: StatusLineConfig;
   forceUseImageAgent?: boolean;